@@ -0,0 +1,34 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { Box, Container } from '@mui/material';
+import InvestorReviewDashboard from '@/components/InvestorReviewDashboard';
+import { STAFF_ROLES } from '@/lib/auth';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/session';
+
+export default async function AdminPage() {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const claims = token ? await verifySessionToken(token) : null;
+
+  if (!claims) {
+    redirect('/login');
+  }
+
+  // The API enforces roles on every call; this only keeps applicants out
+  if (!STAFF_ROLES.includes(claims.role)) {
+    redirect('/');
+  }
+
+  return (
+    <Container
+      maxWidth="xl"
+      sx={{
+        py: { xs: 0, sm: 4 },
+        px: { xs: 0, sm: 2 },
+      }}
+    >
+      <Box sx={{ mx: 'auto' }}>
+        <InvestorReviewDashboard canEdit={claims.role === 'admin'} />
+      </Box>
+    </Container>
+  );
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { AuditEvent } from '@prisma/client';
+import {
+  getHttpStatusForError,
+  paginateByCursor,
+  parsePrismaError,
+} from '@/lib/db-utils';
+import { requireAuth } from '@/lib/auth';
+import {
+  AUDITOR_ROLES,
+  decryptAuditEvent,
+  parseAuditQueryParams,
+} from '@/lib/audit';
+import { toValidationErrorBody } from '@/lib/investor-validation';
+
+/**
+ * Query the audit log, newest first
+ * Optional query params: investorId, actorId, action, cursor, pageSize
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth(request, AUDITOR_ROLES);
+
+    const validation = parseAuditQueryParams(request.nextUrl.searchParams);
+
+    if (!validation.isValid) {
+      // Return every validation error, grouped by field
+      return NextResponse.json(toValidationErrorBody(validation.errors), {
+        status: 400,
+      });
+    }
+
+    const { investorId, actorId, action, cursor, pageSize } = validation.data!;
+
+    const result = await paginateByCursor<AuditEvent>(
+      'auditEvent',
+      { cursor, pageSize, sortOrder: 'desc' },
+      { investorId, actorId, action }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result.data.map(decryptAuditEvent),
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    console.error('Error fetching audit events:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to fetch audit events' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getHttpStatusForError, parsePrismaError } from '@/lib/db-utils';
+import { validateCredentials } from '@/lib/auth';
+import { getDummyPasswordHash, verifyPassword } from '@/lib/password';
+import {
+  SESSION_COOKIE,
+  createSessionToken,
+  sessionCookieOptions,
+} from '@/lib/session';
+import { ERROR_MESSAGES } from '@/lib/validation-constants';
+
+/**
+ * Sign in with email and password
+ * Sets the session cookie and also returns the token for API clients
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateCredentials(body);
+    const user = validation.isValid
+      ? await db.user.findUnique({ where: { email: validation.data!.email } })
+      : null;
+
+    // Always verify a hash so unknown emails are not revealed by timing
+    const passwordMatches = await verifyPassword(
+      validation.data?.password ?? '',
+      user?.passwordHash ?? (await getDummyPasswordHash())
+    );
+
+    if (!user || !passwordMatches) {
+      return NextResponse.json(
+        { error: ERROR_MESSAGES.AUTH_INVALID_CREDENTIALS },
+        { status: 401 }
+      );
+    }
+
+    const token = await createSessionToken({
+      userId: user.id,
+      role: user.role,
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          role: user.role,
+          investorId: user.investorId,
+        },
+        token,
+      },
+    });
+    response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions());
+
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to sign in' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHttpStatusForError, parsePrismaError } from '@/lib/db-utils';
+import { requireAuth } from '@/lib/auth';
+
+/**
+ * Return the signed-in user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    return NextResponse.json({ success: true, data: user });
+  } catch (error) {
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to fetch user' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import {
+  DatabaseErrorCode,
+  getHttpStatusForError,
+  parsePrismaError,
+} from '@/lib/db-utils';
+import { validateCredentials } from '@/lib/auth';
+import { hashPassword } from '@/lib/password';
+import { toValidationErrorBody } from '@/lib/investor-validation';
+
+const REGISTRATION_ACCEPTED =
+  'If this email can be registered, the account is ready; sign in to continue';
+
+/**
+ * Create an applicant account
+ * A new and an already registered email get the same response, so the
+ * endpoint cannot be used to find out who has an account; the caller signs
+ * in through /api/auth/login afterwards. Reviewer and admin accounts are
+ * created with `npm run users:create`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateCredentials(body);
+
+    if (!validation.isValid) {
+      // Return every validation error, grouped by field
+      return NextResponse.json(toValidationErrorBody(validation.errors), {
+        status: 400,
+      });
+    }
+
+    const { email, password } = validation.data!;
+
+    // Hashed before the insert, so a duplicate email takes as long as a new one
+    const passwordHash = await hashPassword(password);
+
+    try {
+      await db.user.create({
+        data: { email, passwordHash, role: 'applicant' },
+        select: { id: true },
+      });
+    } catch (error) {
+      if (
+        parsePrismaError(error).code !== DatabaseErrorCode.UNIQUE_CONSTRAINT
+      ) {
+        throw error;
+      }
+    }
+
+    return NextResponse.json(
+      { success: true, message: REGISTRATION_ACCEPTED },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error registering user:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to register' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DatabaseError,
+  DatabaseErrorCode,
+  getHttpStatusForError,
+  parsePrismaError,
+} from '@/lib/db-utils';
+import { STAFF_ROLES, requireAuth } from '@/lib/auth';
+import { getAuditContext, recordAuditEvents } from '@/lib/audit';
+import { findInvestorDuplicates } from '@/lib/investor-duplicates';
+import { isValidUuid } from '@/lib/validation-constants';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Error returned when the requested investor does not exist
+ */
+function investorNotFound(): DatabaseError {
+  return new DatabaseError(
+    'Investor not found.',
+    DatabaseErrorCode.RECORD_NOT_FOUND
+  );
+}
+
+/**
+ * List investors that may be the same person, most similar first
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireAuth(request, STAFF_ROLES);
+    const { id } = await params;
+
+    if (!isValidUuid(id)) {
+      throw investorNotFound();
+    }
+
+    const duplicates = await findInvestorDuplicates(id);
+
+    // The investor and every candidate listed count as reads
+    await recordAuditEvents(getAuditContext(request, user), [
+      { action: 'read', investorId: id },
+      ...duplicates.map((duplicate) => ({
+        action: 'read' as const,
+        investorId: duplicate.investorId,
+      })),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: duplicates,
+    });
+  } catch (error) {
+    console.error('Error finding duplicate investors:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to find duplicate investors' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import {
+  DatabaseError,
+  DatabaseErrorCode,
+  getHttpStatusForError,
+  parsePrismaError,
+} from '@/lib/db-utils';
+import { requireAuth } from '@/lib/auth';
+import { AUDITOR_ROLES, getAuditContext } from '@/lib/audit';
+import { eraseSubject } from '@/lib/data-subject';
+import { ERROR_MESSAGES, isValidUuid } from '@/lib/validation-constants';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_REFERENCE_LENGTH = 100;
+
+/**
+ * Error returned when the requested investor does not exist
+ */
+function investorNotFound(): DatabaseError {
+  return new DatabaseError(
+    'Investor not found.',
+    DatabaseErrorCode.RECORD_NOT_FOUND
+  );
+}
+
+/**
+ * Permanently erase an investor (data subject erasure request)
+ * Body: { reference?: string, overrideRegulatoryHold?: boolean }
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireAuth(request, ['admin']);
+    const { id } = await params;
+
+    if (!isValidUuid(id)) {
+      throw investorNotFound();
+    }
+
+    let body: unknown;
+
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const { reference, overrideRegulatoryHold } = body as Record<
+      string,
+      unknown
+    >;
+
+    if (
+      reference !== undefined &&
+      (typeof reference !== 'string' ||
+        reference.trim().length > MAX_REFERENCE_LENGTH)
+    ) {
+      return NextResponse.json(
+        { error: ERROR_MESSAGES.ERASURE_REFERENCE_LENGTH },
+        { status: 400 }
+      );
+    }
+
+    if (
+      overrideRegulatoryHold !== undefined &&
+      typeof overrideRegulatoryHold !== 'boolean'
+    ) {
+      return NextResponse.json(
+        { error: ERROR_MESSAGES.ERASURE_OVERRIDE_TYPE },
+        { status: 400 }
+      );
+    }
+
+    const result = await eraseSubject(id, getAuditContext(request, user), {
+      reference: reference?.trim() || undefined,
+      overrideRegulatoryHold,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error erasing investor:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to erase investor' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
+
+/**
+ * Show the erasure tombstone for an investor id
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireAuth(request, AUDITOR_ROLES);
+    const { id } = await params;
+
+    const tombstone = isValidUuid(id)
+      ? await db.erasureTombstone.findUnique({ where: { investorId: id } })
+      : null;
+
+    if (!tombstone) {
+      throw new DatabaseError(
+        'No erasure recorded for this investor.',
+        DatabaseErrorCode.RECORD_NOT_FOUND
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: tombstone,
+    });
+  } catch (error) {
+    console.error('Error fetching erasure record:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to fetch erasure record' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
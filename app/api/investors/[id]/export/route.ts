@@ -0,0 +1,81 @@
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DatabaseError,
+  DatabaseErrorCode,
+  getHttpStatusForError,
+  parsePrismaError,
+} from '@/lib/db-utils';
+import { requireAuth } from '@/lib/auth';
+import { getAuditContext, recordAuditEvent } from '@/lib/audit';
+import { collectSubjectData, createSubjectArchive } from '@/lib/data-subject';
+import { buildContentDisposition } from '@/lib/file-download';
+import { isValidUuid } from '@/lib/validation-constants';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Error returned when the requested investor does not exist
+ */
+function investorNotFound(): DatabaseError {
+  return new DatabaseError(
+    'Investor not found.',
+    DatabaseErrorCode.RECORD_NOT_FOUND
+  );
+}
+
+/**
+ * Download everything held about an investor as a ZIP (data subject access
+ * request): manifest.json plus every document
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireAuth(request, ['admin']);
+    const { id } = await params;
+
+    if (!isValidUuid(id)) {
+      throw investorNotFound();
+    }
+
+    const subject = await collectSubjectData(id);
+
+    if (!subject) {
+      throw investorNotFound();
+    }
+
+    const archive = await createSubjectArchive(subject);
+
+    try {
+      await recordAuditEvent(getAuditContext(request, user), {
+        action: 'export',
+        investorId: id,
+      });
+    } catch (error) {
+      archive.destroy();
+      throw error;
+    }
+
+    return new NextResponse(Readable.toWeb(archive) as ReadableStream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': buildContentDisposition(
+          `subject-${id}.zip`,
+          'attachment'
+        ),
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting investor data:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to export investor data' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
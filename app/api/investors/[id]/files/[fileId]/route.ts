@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import {
+  DatabaseError,
+  DatabaseErrorCode,
+  getHttpStatusForError,
+  lockInvestors,
+  parsePrismaError,
+} from '@/lib/db-utils';
+import {
+  buildContentDisposition,
+  createDownloadStream,
+  getDownloadSize,
+  parseRangeHeader,
+} from '@/lib/file-download';
+import { deleteFiles } from '@/lib/file-upload';
+import { assertInvestorAccess, requireAuth } from '@/lib/auth';
+import { getAuditContext, recordAuditEvent } from '@/lib/audit';
+import { ACTIVE_INVESTOR_FILE_WHERE } from '@/lib/soft-delete';
+import { assertApplicantCanEdit } from '@/lib/investor-status';
+import {
+  ERROR_MESSAGES,
+  describeDocumentRequirement,
+  getMissingDocumentRequirements,
+  isValidUuid,
+} from '@/lib/validation-constants';
+
+interface RouteContext {
+  params: Promise<{ id: string; fileId: string }>;
+}
+
+/**
+ * Error returned when the requested file does not exist or cannot be served
+ */
+function fileNotFound(): DatabaseError {
+  return new DatabaseError(
+    'File not found.',
+    DatabaseErrorCode.RECORD_NOT_FOUND
+  );
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireAuth(request);
+    const { id, fileId } = await params;
+
+    if (!isValidUuid(id) || !isValidUuid(fileId)) {
+      throw fileNotFound();
+    }
+
+    assertInvestorAccess(user, id);
+
+    // Scope the lookup to the investor so file ids cannot be mixed across records
+    const file = await db.investorFile.findFirst({
+      where: { id: fileId, investorId: id, ...ACTIVE_INVESTOR_FILE_WHERE },
+    });
+
+    if (!file) {
+      throw fileNotFound();
+    }
+
+    const size = await getDownloadSize(file.filePath);
+
+    if (size === null) {
+      throw fileNotFound();
+    }
+
+    const disposition =
+      request.nextUrl.searchParams.get('disposition') === 'inline'
+        ? 'inline'
+        : 'attachment';
+
+    const headers = new Headers({
+      'Content-Type': file.mimeType,
+      'Content-Disposition': buildContentDisposition(
+        file.fileOriginalName,
+        disposition
+      ),
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+    });
+
+    if (file.checksum) {
+      headers.set('ETag', `"${file.checksum}"`);
+    }
+
+    const range = parseRangeHeader(request.headers.get('range'), size);
+
+    if (range === 'unsatisfiable') {
+      headers.set('Content-Range', `bytes */${size}`);
+      return new NextResponse(null, { status: 416, headers });
+    }
+
+    // Every served response is recorded, including partial (range) requests
+    await recordAuditEvent(getAuditContext(request, user), {
+      action: 'download',
+      investorId: id,
+      fileId: file.id,
+    });
+
+    if (range) {
+      // A range covering the whole file (e.g. bytes=0-) is read as a whole
+      // file, so it is checked against the checksum like a full download
+      const wholeFile = range.start === 0 && range.end === size - 1;
+
+      headers.set('Content-Length', String(range.end - range.start + 1));
+      headers.set('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+
+      return new NextResponse(
+        await createDownloadStream(file, wholeFile ? undefined : range),
+        { status: 206, headers }
+      );
+    }
+
+    headers.set('Content-Length', String(size));
+
+    return new NextResponse(await createDownloadStream(file), {
+      status: 200,
+      headers,
+    });
+  } catch (error) {
+    console.error('Error downloading investor file:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to download file' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireAuth(request);
+    const { id, fileId } = await params;
+
+    if (!isValidUuid(id) || !isValidUuid(fileId)) {
+      throw fileNotFound();
+    }
+
+    assertInvestorAccess(user, id, ['admin']);
+
+    const audit = getAuditContext(request, user);
+
+    const file = await db.$transaction(async (tx) => {
+      // Checked under the lock so two deletes cannot each leave the other's
+      // document as the last one
+      await lockInvestors(tx, [id]);
+
+      const file = await tx.investorFile.findFirst({
+        where: { id: fileId, investorId: id, ...ACTIVE_INVESTOR_FILE_WHERE },
+        include: { investor: { select: { status: true } } },
+      });
+
+      if (!file) {
+        throw fileNotFound();
+      }
+
+      assertApplicantCanEdit(user, file.investor.status);
+
+      const remainingFiles = await tx.investorFile.findMany({
+        where: { investorId: id, id: { not: file.id } },
+        select: { documentType: true },
+      });
+
+      if (remainingFiles.length === 0) {
+        throw new DatabaseError(ERROR_MESSAGES.FILE_LAST_DOCUMENT, 'CONFLICT');
+      }
+
+      const [missing] = getMissingDocumentRequirements(
+        remainingFiles.map((remaining) => remaining.documentType)
+      );
+
+      if (missing) {
+        throw new DatabaseError(
+          ERROR_MESSAGES.DOCUMENT_REQUIRED(
+            missing.label,
+            describeDocumentRequirement(missing)
+          ),
+          'CONFLICT'
+        );
+      }
+
+      await tx.investorFile.delete({ where: { id: file.id } });
+
+      await recordAuditEvent(
+        audit,
+        { action: 'delete', investorId: id, fileId: file.id },
+        tx
+      );
+
+      return file;
+    });
+
+    try {
+      await deleteFiles([file.filePath]);
+    } catch (error) {
+      // The record is already gone; leftover files can be cleaned up later
+      console.error('Error deleting investor file from disk:', error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id: file.id },
+    });
+  } catch (error) {
+    console.error('Error deleting investor file:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to delete file' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
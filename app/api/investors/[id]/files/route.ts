@@ -0,0 +1,260 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  db,
+  INVESTOR_FILE_PUBLIC_OMIT,
+  type TransactionClient,
+} from '@/lib/db';
+import {
+  DatabaseError,
+  DatabaseErrorCode,
+  getHttpStatusForError,
+  lockInvestors,
+  parsePrismaError,
+} from '@/lib/db-utils';
+import {
+  assertInvestorAccess,
+  requireAuth,
+  type SessionUser,
+} from '@/lib/auth';
+import { getAuditContext, recordAuditEvents } from '@/lib/audit';
+import {
+  readDocumentFields,
+  toValidationErrorBody,
+  validateFiles,
+  verifyFileContents,
+  type DocumentFields,
+  type DocumentRecord,
+  type ValidationError,
+} from '@/lib/investor-validation';
+import { deleteFiles, uploadFilesInTransaction } from '@/lib/file-upload';
+import { assertApplicantCanEdit } from '@/lib/investor-status';
+import { ERROR_MESSAGES, isValidUuid } from '@/lib/validation-constants';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Error returned when the requested investor does not exist
+ */
+function investorNotFound(): DatabaseError {
+  return new DatabaseError(
+    'Investor not found.',
+    DatabaseErrorCode.RECORD_NOT_FOUND
+  );
+}
+
+interface UploadRequest {
+  files: File[];
+  documentFields: DocumentFields;
+  replaceFileIds: string[];
+}
+
+/**
+ * Check an upload against the investor's current documents
+ * Returns the documents it replaces and the validated fields of the new ones;
+ * validation errors are thrown with the full list in meta.errors
+ */
+async function checkUpload(
+  client: Pick<TransactionClient, 'investor'>,
+  user: SessionUser,
+  id: string,
+  upload: UploadRequest
+): Promise<{
+  replacedFiles: Array<{ id: string; filePath: string }>;
+  documents: DocumentRecord[];
+}> {
+  const investor = await client.investor.findUnique({
+    where: { id },
+    select: {
+      status: true,
+      files: {
+        select: {
+          id: true,
+          filePath: true,
+          fileSize: true,
+          documentType: true,
+        },
+      },
+    },
+  });
+
+  if (!investor) {
+    throw investorNotFound();
+  }
+
+  assertApplicantCanEdit(user, investor.status);
+
+  const replacedFiles = investor.files.filter((file) =>
+    upload.replaceFileIds.includes(file.id)
+  );
+  const unknownFileId = upload.replaceFileIds.find(
+    (fileId) => !replacedFiles.some((file) => file.id === fileId)
+  );
+
+  if (unknownFileId) {
+    throw new DatabaseError(
+      ERROR_MESSAGES.FILE_REPLACE_NOT_FOUND(unknownFileId),
+      'VALIDATION_ERROR'
+    );
+  }
+
+  // Reuse the per-file checks from creation, counting the kept documents
+  // towards the requirements and per-investor caps
+  const keptFiles = investor.files.filter(
+    (file) => !upload.replaceFileIds.includes(file.id)
+  );
+
+  const validation = validateFiles(
+    upload.files,
+    upload.documentFields,
+    keptFiles
+  );
+
+  if (!validation.isValid) {
+    throw new DatabaseError(validation.errors[0].message, 'VALIDATION_ERROR', {
+      errors: validation.errors,
+    });
+  }
+
+  return { replacedFiles, documents: validation.data! };
+}
+
+/**
+ * Add documents to an existing investor
+ * Optional replaceFileId entries name existing documents to remove in the same
+ * operation, e.g. when an investor sends an updated driver's license
+ * Each file needs a matching documentType entry (and optionally issueDate and
+ * expiryDate), and the documents kept plus the new ones must still satisfy
+ * DOCUMENT_REQUIREMENTS
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (!isValidUuid(id)) {
+      throw investorNotFound();
+    }
+
+    assertInvestorAccess(user, id, ['admin']);
+
+    const formData = await request.formData();
+    const upload: UploadRequest = {
+      files: formData.getAll('files') as File[],
+      documentFields: readDocumentFields(formData),
+      replaceFileIds: formData.getAll('replaceFileId') as string[],
+    };
+
+    // Reject bad requests before anything is written to storage
+    await checkUpload(db, user, id, upload);
+
+    // Check real file formats; the browser-supplied type is not trusted
+    const contentCheck = await verifyFileContents(upload.files);
+
+    if (contentCheck.errors.length > 0) {
+      return NextResponse.json(toValidationErrorBody(contentCheck.errors), {
+        status: 400,
+      });
+    }
+
+    const audit = getAuditContext(request, user);
+
+    const result = await uploadFilesInTransaction(
+      contentCheck.files,
+      async (fileDataArray, tx) => {
+        // Check again under the lock, so concurrent uploads and deletes
+        // cannot together break the caps or the document requirements
+        await lockInvestors(tx, [id]);
+
+        const { replacedFiles, documents } = await checkUpload(
+          tx,
+          user,
+          id,
+          upload
+        );
+
+        const created = await Promise.all(
+          fileDataArray.map((fileData, index) =>
+            tx.investorFile.create({
+              data: {
+                ...fileData,
+                ...documents[index],
+                investorId: id,
+              },
+              omit: INVESTOR_FILE_PUBLIC_OMIT,
+            })
+          )
+        );
+
+        if (replacedFiles.length > 0) {
+          await tx.investorFile.deleteMany({
+            where: {
+              investorId: id,
+              id: { in: replacedFiles.map((file) => file.id) },
+            },
+          });
+        }
+
+        await recordAuditEvents(
+          audit,
+          [
+            ...created.map((file) => ({
+              action: 'create' as const,
+              investorId: id,
+              fileId: file.id,
+            })),
+            ...replacedFiles.map((file) => ({
+              action: 'delete' as const,
+              investorId: id,
+              fileId: file.id,
+            })),
+          ],
+          tx
+        );
+
+        return { created, replacedFiles };
+      }
+    );
+
+    if (result.error) {
+      throw result.error;
+    }
+
+    const { created, replacedFiles } = result.data!;
+
+    try {
+      await deleteFiles(replacedFiles.map((file) => file.filePath));
+    } catch (error) {
+      console.error('Error deleting replaced files from disk:', error);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          files: created,
+          removedFileIds: replacedFiles.map((file) => file.id),
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error adding investor files:', error);
+
+    const dbError = parsePrismaError(error);
+
+    if (dbError.meta?.errors) {
+      // Return every validation error, grouped by field
+      return NextResponse.json(
+        toValidationErrorBody(dbError.meta.errors as ValidationError[]),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to add files' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
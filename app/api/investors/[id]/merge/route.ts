@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DatabaseError,
+  DatabaseErrorCode,
+  getHttpStatusForError,
+  parsePrismaError,
+} from '@/lib/db-utils';
+import { requireAuth } from '@/lib/auth';
+import { getAuditContext } from '@/lib/audit';
+import { mergeInvestors } from '@/lib/investor-duplicates';
+import { ERROR_MESSAGES, isValidUuid } from '@/lib/validation-constants';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Error returned when the requested investor does not exist
+ */
+function investorNotFound(): DatabaseError {
+  return new DatabaseError(
+    'Investor not found.',
+    DatabaseErrorCode.RECORD_NOT_FOUND
+  );
+}
+
+/**
+ * Merge a duplicate investor into this one
+ * Body: { sourceId: string } - the duplicate, which is soft-deleted
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireAuth(request, ['admin']);
+    const { id } = await params;
+
+    if (!isValidUuid(id)) {
+      throw investorNotFound();
+    }
+
+    let body: unknown;
+
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const { sourceId } = body as Record<string, unknown>;
+
+    if (
+      typeof sourceId !== 'string' ||
+      !isValidUuid(sourceId) ||
+      sourceId === id
+    ) {
+      return NextResponse.json(
+        { error: ERROR_MESSAGES.MERGE_SOURCE_INVALID },
+        { status: 400 }
+      );
+    }
+
+    const investor = await mergeInvestors(
+      id,
+      sourceId,
+      getAuditContext(request, user)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: investor,
+    });
+  } catch (error) {
+    console.error('Error merging investors:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to merge investors' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
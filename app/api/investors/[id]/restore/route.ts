@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, INVESTOR_FILE_PUBLIC_OMIT, INVESTOR_PUBLIC_OMIT } from '@/lib/db';
+import {
+  DatabaseError,
+  DatabaseErrorCode,
+  getHttpStatusForError,
+  parsePrismaError,
+} from '@/lib/db-utils';
+import { requireAuth } from '@/lib/auth';
+import {
+  diffInvestorFields,
+  getAuditContext,
+  recordAuditEvent,
+} from '@/lib/audit';
+import { ERROR_MESSAGES, isValidUuid } from '@/lib/validation-constants';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Error returned when there is no soft-deleted investor with this id
+ */
+function investorNotFound(): DatabaseError {
+  return new DatabaseError(
+    'Deleted investor not found.',
+    DatabaseErrorCode.RECORD_NOT_FOUND
+  );
+}
+
+/**
+ * Undo a soft delete before the investor is purged
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireAuth(request, ['admin']);
+    const { id } = await params;
+
+    if (!isValidUuid(id)) {
+      throw investorNotFound();
+    }
+
+    const audit = getAuditContext(request, user);
+
+    const investor = await db.$transaction(async (tx) => {
+      // Filtering on deletedAt opts out of the soft-delete extension
+      const deleted = await tx.investor.findFirst({
+        where: { id, deletedAt: { not: null } },
+      });
+
+      if (!deleted) {
+        throw investorNotFound();
+      }
+
+      // Its documents and history now belong to another investor
+      if (deleted.mergedIntoId) {
+        throw new DatabaseError(ERROR_MESSAGES.INVESTOR_MERGED, 'CONFLICT');
+      }
+
+      const restored = await tx.investor.update({
+        where: { id, deletedAt: { not: null } },
+        data: { deletedAt: null },
+        omit: INVESTOR_PUBLIC_OMIT,
+        include: {
+          files: {
+            omit: INVESTOR_FILE_PUBLIC_OMIT,
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+      });
+
+      await recordAuditEvent(
+        audit,
+        {
+          action: 'update',
+          investorId: id,
+          changes: diffInvestorFields(deleted, restored),
+        },
+        tx
+      );
+
+      return restored;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: investor,
+    });
+  } catch (error) {
+    console.error('Error restoring investor:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to restore investor' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
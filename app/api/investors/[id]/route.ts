@@ -0,0 +1,253 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, INVESTOR_FILE_PUBLIC_OMIT, INVESTOR_PUBLIC_OMIT } from '@/lib/db';
+import {
+  DatabaseError,
+  DatabaseErrorCode,
+  getHttpStatusForError,
+  parsePrismaError,
+} from '@/lib/db-utils';
+import { assertInvestorAccess, requireAuth } from '@/lib/auth';
+import {
+  diffInvestorFields,
+  getAuditContext,
+  recordAuditEvent,
+} from '@/lib/audit';
+import {
+  toValidationErrorBody,
+  validateInvestorUpdate,
+} from '@/lib/investor-validation';
+import { assertApplicantCanEdit } from '@/lib/investor-status';
+import { getPurgeEligibleAt } from '@/lib/retention';
+import { isValidUuid } from '@/lib/validation-constants';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Error returned when the requested investor does not exist
+ */
+function investorNotFound(): DatabaseError {
+  return new DatabaseError(
+    'Investor not found.',
+    DatabaseErrorCode.RECORD_NOT_FOUND
+  );
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (!isValidUuid(id)) {
+      throw investorNotFound();
+    }
+
+    assertInvestorAccess(user, id);
+
+    const investor = await db.investor.findUnique({
+      where: { id },
+      omit: INVESTOR_PUBLIC_OMIT,
+      include: {
+        files: {
+          omit: INVESTOR_FILE_PUBLIC_OMIT,
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!investor) {
+      throw investorNotFound();
+    }
+
+    await recordAuditEvent(getAuditContext(request, user), {
+      action: 'read',
+      investorId: investor.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: investor,
+    });
+  } catch (error) {
+    console.error('Error fetching investor:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to fetch investor' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (!isValidUuid(id)) {
+      throw investorNotFound();
+    }
+
+    // Reviewers have read-only access
+    assertInvestorAccess(user, id, ['admin']);
+
+    let body: unknown;
+
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Address changes are checked against the rest of the stored address
+    const current = await db.investor.findUnique({
+      where: { id },
+      select: { country: true, state: true, zipCode: true },
+    });
+
+    if (!current) {
+      throw investorNotFound();
+    }
+
+    // Validate only the fields being changed
+    const validation = validateInvestorUpdate(
+      id,
+      body as Record<string, unknown>,
+      current
+    );
+
+    if (!validation.isValid) {
+      // Return every validation error, grouped by field
+      return NextResponse.json(toValidationErrorBody(validation.errors), {
+        status: 400,
+      });
+    }
+
+    const { id: investorId, ...changes } = validation.data!;
+
+    const audit = getAuditContext(request, user);
+
+    const investor = await db.$transaction(async (tx) => {
+      const before = await tx.investor.findUnique({
+        where: { id: investorId },
+      });
+
+      if (!before) {
+        throw investorNotFound();
+      }
+
+      assertApplicantCanEdit(user, before.status);
+
+      const updated = await tx.investor.update({
+        where: { id: investorId },
+        data: changes,
+        omit: INVESTOR_PUBLIC_OMIT,
+        include: {
+          files: {
+            omit: INVESTOR_FILE_PUBLIC_OMIT,
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+      });
+
+      await recordAuditEvent(
+        audit,
+        {
+          action: 'update',
+          investorId,
+          changes: diffInvestorFields(before, updated),
+        },
+        tx
+      );
+
+      return updated;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: investor,
+    });
+  } catch (error) {
+    console.error('Error updating investor:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to update investor' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireAuth(request, ['admin']);
+    const { id } = await params;
+
+    if (!isValidUuid(id)) {
+      throw investorNotFound();
+    }
+
+    const investor = await db.investor.findUnique({ where: { id } });
+
+    if (!investor) {
+      throw investorNotFound();
+    }
+
+    const audit = getAuditContext(request, user);
+
+    // Soft delete: the record and its documents are kept until the retention
+    // purge (lib/retention.ts) and can be restored until then
+    const deleted = await db.$transaction(async (tx) => {
+      const updated = await tx.investor.update({
+        where: { id },
+        data: { deletedAt: new Date() },
+      });
+
+      await recordAuditEvent(
+        audit,
+        {
+          action: 'delete',
+          investorId: id,
+          changes: diffInvestorFields(investor, updated),
+        },
+        tx
+      );
+
+      return updated;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: deleted.id,
+        deletedAt: deleted.deletedAt,
+        purgeEligibleAt: getPurgeEligibleAt({
+          createdAt: deleted.createdAt,
+          deletedAt: deleted.deletedAt!,
+        }),
+      },
+    });
+  } catch (error) {
+    console.error('Error deleting investor:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to delete investor' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
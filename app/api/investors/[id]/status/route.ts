@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import {
+  DatabaseError,
+  DatabaseErrorCode,
+  getHttpStatusForError,
+  parsePrismaError,
+} from '@/lib/db-utils';
+import { assertInvestorAccess, requireAuth } from '@/lib/auth';
+import { getAuditContext, recordAuditEvent } from '@/lib/audit';
+import {
+  changeInvestorStatus,
+  getAllowedTransitions,
+  validateStatusChange,
+} from '@/lib/investor-status';
+import { isValidUuid } from '@/lib/validation-constants';
+import { toValidationErrorBody } from '@/lib/investor-validation';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Error returned when the requested investor does not exist
+ */
+function investorNotFound(): DatabaseError {
+  return new DatabaseError(
+    'Investor not found.',
+    DatabaseErrorCode.RECORD_NOT_FOUND
+  );
+}
+
+/**
+ * Current status, the transitions open to the caller and the full history
+ * Reviewer notes are internal, so applicants see the history without them
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (!isValidUuid(id)) {
+      throw investorNotFound();
+    }
+
+    assertInvestorAccess(user, id);
+
+    const investor = await db.investor.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        status: true,
+        statusChangedAt: true,
+        statusChanges: {
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          include: { changedBy: { select: { email: true, role: true } } },
+        },
+      },
+    });
+
+    if (!investor) {
+      throw investorNotFound();
+    }
+
+    await recordAuditEvent(getAuditContext(request, user), {
+      action: 'read',
+      investorId: investor.id,
+    });
+
+    const history = investor.statusChanges.map((change) =>
+      user.role === 'applicant'
+        ? {
+            id: change.id,
+            fromStatus: change.fromStatus,
+            toStatus: change.toStatus,
+            createdAt: change.createdAt,
+          }
+        : change
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: investor.id,
+        status: investor.status,
+        statusChangedAt: investor.statusChangedAt,
+        allowedTransitions: getAllowedTransitions(investor.status, user.role),
+        history,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching investor status:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to fetch investor status' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
+
+/**
+ * Move an investor through the review workflow (see lib/investor-status.ts)
+ * Body: { status, note? }
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireAuth(request);
+    const { id } = await params;
+
+    if (!isValidUuid(id)) {
+      throw investorNotFound();
+    }
+
+    // Which roles may make which transition is checked per rule
+    assertInvestorAccess(user, id);
+
+    let body: unknown;
+
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateStatusChange(body as Record<string, unknown>);
+
+    if (!validation.isValid) {
+      // Return every validation error, grouped by field
+      return NextResponse.json(toValidationErrorBody(validation.errors), {
+        status: 400,
+      });
+    }
+
+    const change = await changeInvestorStatus(
+      id,
+      validation.data!,
+      getAuditContext(request, user)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: change,
+    });
+  } catch (error) {
+    console.error('Error changing investor status:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to change investor status' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
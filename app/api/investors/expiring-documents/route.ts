@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHttpStatusForError, parsePrismaError } from '@/lib/db-utils';
+import { findExpiringDocuments } from '@/lib/document-expiry';
+import { STAFF_ROLES, requireAuth } from '@/lib/auth';
+import { getAuditContext, recordAuditEvents } from '@/lib/audit';
+import {
+  DOCUMENT_DATE_VALIDATION,
+  ERROR_MESSAGES,
+} from '@/lib/validation-constants';
+
+/**
+ * List investors with documents that have expired or expire soon
+ * Optional query param: withinDays (default DOCUMENT_EXPIRY_WARNING_DAYS)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request, STAFF_ROLES);
+
+    const withinDaysParam = request.nextUrl.searchParams.get('withinDays');
+    let withinDays: number | undefined;
+
+    if (withinDaysParam) {
+      withinDays = /^\d+$/.test(withinDaysParam)
+        ? parseInt(withinDaysParam, 10)
+        : -1;
+
+      if (
+        withinDays < 0 ||
+        withinDays > DOCUMENT_DATE_VALIDATION.MAX_EXPIRY_WARNING_DAYS
+      ) {
+        return NextResponse.json(
+          { error: ERROR_MESSAGES.EXPIRY_WINDOW_INVALID },
+          { status: 400 }
+        );
+      }
+    }
+
+    const report = await findExpiringDocuments({ withinDays });
+
+    // The report names investors, so each one listed counts as a read
+    await recordAuditEvents(
+      getAuditContext(request, user),
+      report.investors.map((investor) => ({
+        action: 'read',
+        investorId: investor.investorId,
+      }))
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Error fetching expiring documents:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to fetch expiring documents' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
@@ -1,80 +1,253 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
-import { parsePrismaError } from '@/lib/db-utils';
-import { validateInvestorData } from '@/lib/investor-validation';
-import { uploadFiles } from '@/lib/file-upload';
+import { INVESTOR_PUBLIC_OMIT } from '@/lib/db';
+import {
+  DatabaseError,
+  getHttpStatusForError,
+  paginate,
+  paginateByCursor,
+  parsePrismaError,
+} from '@/lib/db-utils';
+import { STAFF_ROLES, requireAuth } from '@/lib/auth';
+import {
+  diffInvestorFields,
+  getAuditContext,
+  recordAuditEvents,
+} from '@/lib/audit';
+import {
+  readDocumentFields,
+  readInvestorFields,
+  toValidationErrorBody,
+  validateInvestorData,
+  verifyFileContents,
+} from '@/lib/investor-validation';
+import { uploadFilesInTransaction } from '@/lib/file-upload';
+import {
+  duplicateReviewNote,
+  findDuplicateCandidates,
+  isLikelyDuplicate,
+  type DuplicateMatch,
+} from '@/lib/investor-duplicates';
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  fingerprintFormData,
+  readIdempotencyKey,
+  releaseIdempotencyKey,
+  type IdempotencyClaim,
+} from '@/lib/idempotency';
+import {
+  buildInvestorOrderBy,
+  buildInvestorWhere,
+  parseInvestorSearchParams,
+} from '@/lib/investor-search';
+import type {
+  Investor,
+  InvestorListResponse,
+  PublicInvestor,
+} from '@/types/investor';
+import { ERROR_MESSAGES } from '@/lib/validation-constants';
+
+// Abandoned Idempotency-Key claims are taken over once this has passed;
+// keep in step with IDEMPOTENT_REQUEST_MAX_DURATION_SECONDS
+export const maxDuration = 60;
+
+/**
+ * Body of a successful create, also stored for idempotent replays
+ */
+function createdResponseBody(
+  investor: Investor & { files: unknown[] },
+  possibleDuplicates: DuplicateMatch[] | null
+) {
+  return {
+    success: true,
+    data: {
+      id: investor.id,
+      firstName: investor.firstName,
+      lastName: investor.lastName,
+      createdAt: investor.createdAt,
+      filesCount: investor.files.length,
+      // Applicants are not told about other people's records
+      ...(possibleDuplicates && { possibleDuplicates }),
+    },
+  };
+}
 
 export async function POST(request: NextRequest) {
+  let idempotency: IdempotencyClaim | null = null;
+
   try {
+    const user = await requireAuth(request);
+    const audit = getAuditContext(request, user);
+    const idempotencyKey = readIdempotencyKey(request);
+
     const formData = await request.formData();
 
+    // A retry of a request that already succeeded gets the original response
+    if (idempotencyKey) {
+      const started = await beginIdempotentRequest(
+        { userId: user.id, key: idempotencyKey },
+        fingerprintFormData(formData)
+      );
+
+      if ('stored' in started) {
+        return NextResponse.json(started.stored.body, {
+          status: started.stored.statusCode,
+          headers: { 'Idempotent-Replayed': 'true' },
+        });
+      }
+
+      idempotency = started.claim;
+    }
+
+    // Applicants own exactly one investor record
+    if (user.role === 'applicant' && user.investorId) {
+      throw new DatabaseError(
+        ERROR_MESSAGES.INVESTOR_ALREADY_LINKED,
+        'CONFLICT'
+      );
+    }
+
     // Extract form fields
-    const firstName = formData.get('firstName') as string;
-    const lastName = formData.get('lastName') as string;
-    const dateOfBirth = formData.get('dateOfBirth') as string;
-    const phoneNumber = formData.get('phoneNumber') as string;
-    const streetAddress = formData.get('streetAddress') as string;
-    const state = formData.get('state') as string;
-    const zipCode = formData.get('zipCode') as string;
+    const fields = readInvestorFields(formData);
     const files = formData.getAll('files') as File[];
+    const documents = readDocumentFields(formData);
+    const isStaff = STAFF_ROLES.includes(user.role);
+    // Staff may knowingly create a record that looks like a duplicate
+    const allowDuplicate = isStaff && formData.get('allowDuplicate') === 'true';
 
     // Validate all input data
-    const validation = validateInvestorData({
-      firstName,
-      lastName,
-      dateOfBirth,
-      phoneNumber,
-      streetAddress,
-      state,
-      zipCode,
-      files,
-    });
+    const validation = validateInvestorData({ ...fields, files, documents });
 
     if (!validation.isValid) {
-      // Return first validation error
-      const firstError = validation.errors[0];
-      return NextResponse.json(
-        { error: firstError.message },
-        { status: 400 }
-      );
+      // Return every validation error, grouped by field
+      return NextResponse.json(toValidationErrorBody(validation.errors), {
+        status: 400,
+      });
     }
 
     // Use validated and normalized data
     const validatedData = validation.data!;
 
-    // Upload files and get metadata
-    const fileDataArray = await uploadFiles(validatedData.files);
-
-    // Save to database with files
-    const investor = await db.investor.create({
-      data: {
-        firstName: validatedData.firstName,
-        lastName: validatedData.lastName,
-        dateOfBirth: new Date(validatedData.dateOfBirth),
-        phoneNumber: validatedData.phoneNumber,
-        streetAddress: validatedData.streetAddress,
-        state: validatedData.state,
-        zipCode: validatedData.zipCode,
-        files: {
-          create: fileDataArray,
-        },
-      },
-      include: {
-        files: true,
-      },
-    });
+    // Only ids and scores are returned here; details need the duplicates API
+    const duplicates = (await findDuplicateCandidates(validatedData)).map(
+      ({ investorId, score, matchedOn }) => ({ investorId, score, matchedOn })
+    );
+
+    const likelyDuplicates = duplicates.filter(isLikelyDuplicate);
+
+    // Rejecting an applicant would tell them that someone else's details are
+    // on file, so only staff are stopped; an applicant's submission goes
+    // through with a note for the reviewer
+    if (isStaff && !allowDuplicate && likelyDuplicates.length > 0) {
+      return NextResponse.json(
+        { error: ERROR_MESSAGES.DUPLICATE_INVESTOR, duplicates },
+        { status: 409 }
+      );
+    }
+
+    const reviewNote =
+      !isStaff && likelyDuplicates.length > 0
+        ? duplicateReviewNote(likelyDuplicates)
+        : null;
+
+    // Check real file formats; the browser-supplied type is not trusted
+    const contentCheck = await verifyFileContents(validatedData.files);
+
+    if (contentCheck.errors.length > 0) {
+      return NextResponse.json(toValidationErrorBody(contentCheck.errors), {
+        status: 400,
+      });
+    }
+
+    // Upload files and save to database as a single all-or-nothing operation
+    const result = await uploadFilesInTransaction(
+      contentCheck.files,
+      async (fileDataArray, tx) => {
+        const investor = await tx.investor.create({
+          data: {
+            firstName: validatedData.firstName,
+            lastName: validatedData.lastName,
+            dateOfBirth: validatedData.dateOfBirth,
+            phoneNumber: validatedData.phoneNumber,
+            streetAddress: validatedData.streetAddress,
+            state: validatedData.state,
+            zipCode: validatedData.zipCode,
+            country: validatedData.country,
+            files: {
+              create: fileDataArray.map((fileData, index) => ({
+                ...fileData,
+                ...validatedData.documents[index],
+              })),
+            },
+            statusChanges: {
+              create: {
+                toStatus: 'submitted',
+                changedById: user.id,
+                note: reviewNote,
+              },
+            },
+          },
+          include: {
+            files: true,
+          },
+        });
+
+        if (user.role === 'applicant') {
+          // Conditional so two concurrent submissions cannot both link
+          const linked = await tx.user.updateMany({
+            where: { id: user.id, investorId: null },
+            data: { investorId: investor.id },
+          });
+
+          if (linked.count === 0) {
+            throw new DatabaseError(
+              ERROR_MESSAGES.INVESTOR_ALREADY_LINKED,
+              'CONFLICT'
+            );
+          }
+        }
+
+        await recordAuditEvents(
+          audit,
+          [
+            {
+              action: 'create',
+              investorId: investor.id,
+              changes: diffInvestorFields(null, investor),
+            },
+            ...investor.files.map((file) => ({
+              action: 'create' as const,
+              investorId: investor.id,
+              fileId: file.id,
+            })),
+          ],
+          tx
+        );
+
+        if (idempotency) {
+          await completeIdempotentRequest(
+            idempotency,
+            {
+              statusCode: 201,
+              body: createdResponseBody(investor, isStaff ? duplicates : null),
+              investorId: investor.id,
+            },
+            tx
+          );
+        }
+
+        return investor;
+      }
+    );
+
+    if (result.error) {
+      throw result.error;
+    }
+
+    const investor = result.data!;
 
     return NextResponse.json(
-      {
-        success: true,
-        data: {
-          id: investor.id,
-          firstName: investor.firstName,
-          lastName: investor.lastName,
-          createdAt: investor.createdAt,
-          filesCount: investor.files.length,
-        },
-      },
+      createdResponseBody(investor, isStaff ? duplicates : null),
       { status: 201 }
     );
   } catch (error) {
@@ -84,24 +257,82 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(
       { error: dbError.message || 'Failed to create investor' },
-      { status: 500 }
+      { status: getHttpStatusForError(dbError) }
     );
+  } finally {
+    // No-op once the response is stored; otherwise the key can be retried
+    if (idempotency) {
+      await releaseIdempotencyKey(idempotency);
+    }
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const investors = await db.investor.findMany({
-      orderBy: {
-        createdAt: 'desc',
-      },
-      take: 50, // Limit to 50 most recent
-    });
+    // Applicants only ever see their own record (GET /api/investors/:id)
+    const user = await requireAuth(request, STAFF_ROLES);
+    const audit = getAuditContext(request, user);
+
+    const validation = parseInvestorSearchParams(request.nextUrl.searchParams);
+
+    if (!validation.isValid) {
+      // Return every validation error, grouped by field
+      return NextResponse.json(toValidationErrorBody(validation.errors), {
+        status: 400,
+      });
+    }
+
+    const params = validation.data!;
+    const where = buildInvestorWhere(params);
+
+    if (params.pagination === 'cursor') {
+      const result = await paginateByCursor<PublicInvestor>(
+        'investor',
+        {
+          cursor: params.cursor,
+          pageSize: params.pageSize,
+          sortOrder: params.sortOrder,
+        },
+        where,
+        INVESTOR_PUBLIC_OMIT
+      );
+
+      // Listed records expose PII, so each one counts as a read
+      await recordAuditEvents(
+        audit,
+        result.data.map((investor) => ({
+          action: 'read',
+          investorId: investor.id,
+        }))
+      );
+
+      return NextResponse.json<InvestorListResponse>({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    }
+
+    const result = await paginate<PublicInvestor>(
+      'investor',
+      { page: params.page, pageSize: params.pageSize },
+      where,
+      buildInvestorOrderBy(params),
+      INVESTOR_PUBLIC_OMIT
+    );
+
+    await recordAuditEvents(
+      audit,
+      result.data.map((investor) => ({
+        action: 'read',
+        investorId: investor.id,
+      }))
+    );
 
-    return NextResponse.json({
+    return NextResponse.json<InvestorListResponse>({
       success: true,
-      data: investors,
-      count: investors.length,
+      data: result.data,
+      pagination: result.pagination,
     });
   } catch (error) {
     console.error('Error fetching investors:', error);
@@ -110,7 +341,7 @@ export async function GET() {
 
     return NextResponse.json(
       { error: dbError.message || 'Failed to fetch investors' },
-      { status: 500 }
+      { status: getHttpStatusForError(dbError) }
     );
   }
 }
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHttpStatusForError, parsePrismaError } from '@/lib/db-utils';
+import { findSharedDocuments } from '@/lib/document-integrity';
+import { STAFF_ROLES, requireAuth } from '@/lib/auth';
+import { getAuditContext, recordAuditEvents } from '@/lib/audit';
+import {
+  ERROR_MESSAGES,
+  SEARCH_VALIDATION,
+  isValidUuid,
+} from '@/lib/validation-constants';
+
+/**
+ * List identical documents (matching SHA-256) uploaded for different investors
+ * Optional query params: investorId, limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request, STAFF_ROLES);
+
+    const searchParams = request.nextUrl.searchParams;
+    const investorId = searchParams.get('investorId') || undefined;
+    const limitParam = searchParams.get('limit');
+
+    if (investorId && !isValidUuid(investorId)) {
+      return NextResponse.json(
+        { error: ERROR_MESSAGES.INVESTOR_ID_INVALID },
+        { status: 400 }
+      );
+    }
+
+    let limit: number = SEARCH_VALIDATION.DEFAULT_PAGE_SIZE;
+
+    if (limitParam) {
+      limit = /^\d+$/.test(limitParam) ? parseInt(limitParam, 10) : 0;
+
+      if (limit < 1 || limit > SEARCH_VALIDATION.MAX_PAGE_SIZE) {
+        return NextResponse.json(
+          { error: ERROR_MESSAGES.SEARCH_LIMIT_INVALID },
+          { status: 400 }
+        );
+      }
+    }
+
+    const groups = await findSharedDocuments({ investorId, limit });
+
+    // The report names investors, so each one listed counts as a read
+    const investorIds = new Set(
+      groups.flatMap((group) => group.files.map((file) => file.investor.id))
+    );
+
+    await recordAuditEvents(
+      getAuditContext(request, user),
+      [...investorIds].map((id) => ({ action: 'read', investorId: id }))
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: groups,
+      count: groups.length,
+    });
+  } catch (error) {
+    console.error('Error fetching shared documents:', error);
+
+    const dbError = parsePrismaError(error);
+
+    return NextResponse.json(
+      { error: dbError.message || 'Failed to fetch shared documents' },
+      { status: getHttpStatusForError(dbError) }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { Box, Container } from '@mui/material';
+import LoginForm from '@/components/LoginForm';
+
+export default function LoginPage() {
+  return (
+    <Container
+      maxWidth="sm"
+      sx={{
+        py: { xs: 0, sm: 4 },
+        px: { xs: 0, sm: 2 },
+      }}
+    >
+      <Box sx={{ mx: 'auto' }}>
+        <LoginForm />
+      </Box>
+    </Container>
+  );
+}
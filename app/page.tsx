@@ -1,7 +1,17 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
 import { Box, Container } from '@mui/material';
 import InvestorForm from '@/components/InvestorForm';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/session';
+
+export default async function Home() {
+  // The form posts to the investor API, which requires a session
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+
+  if (!token || !(await verifySessionToken(token))) {
+    redirect('/login');
+  }
 
-export default function Home() {
   return (
     <Container
       maxWidth="lg"
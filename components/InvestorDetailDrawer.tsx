@@ -0,0 +1,630 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Divider,
+  Drawer,
+  IconButton,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Close, Delete, Download, Edit } from '@mui/icons-material';
+import type { InvestorStatus } from '@prisma/client';
+import InvestorEditDialog from '@/components/InvestorEditDialog';
+import InvestorStatusChip, {
+  STATUS_LABELS,
+} from '@/components/InvestorStatusChip';
+import {
+  ADDRESS_FORMATS,
+  COUNTRY_LABELS,
+  DOCUMENT_TYPE_LABELS,
+  STATUS_NOTE_MAX_LENGTH,
+} from '@/lib/validation-constants';
+import type {
+  InvestorDuplicateJson,
+  InvestorJson,
+  InvestorStatusJson,
+} from '@/types/investor';
+
+const MATCH_LABELS: Record<InvestorDuplicateJson['matchedOn'][number], string> =
+  {
+    phoneNumber: 'phone',
+    dateOfBirth: 'date of birth',
+    name: 'name',
+    zipCode: 'ZIP / postal code',
+  };
+
+/**
+ * Throw the API's error message for a failed response
+ */
+async function readJson<T>(response: Response, fallback: string): Promise<T> {
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || fallback);
+  }
+
+  return result.data;
+}
+
+function DetailRow({
+  label,
+  value,
+}: {
+  label: string;
+  value: React.ReactNode;
+}) {
+  return (
+    <Box sx={{ display: 'grid', gridTemplateColumns: '140px 1fr', gap: 2 }}>
+      <Typography variant="body2" color="text.secondary">
+        {label}
+      </Typography>
+      <Typography variant="body2" component="div">
+        {value}
+      </Typography>
+    </Box>
+  );
+}
+
+function DocumentPreview({
+  investorId,
+  file,
+}: {
+  investorId: string;
+  file: NonNullable<InvestorJson['files']>[number];
+}) {
+  const url = `/api/investors/${investorId}/files/${file.id}`;
+  const inlineUrl = `${url}?disposition=inline`;
+  const expiryDate = file.expiryDate?.slice(0, 10);
+  const isExpired =
+    !!expiryDate && expiryDate < new Date().toISOString().slice(0, 10);
+
+  return (
+    <Box sx={{ border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          p: 1.5,
+        }}
+      >
+        <Box>
+          <Typography variant="body2" sx={{ fontWeight: 600 }}>
+            {DOCUMENT_TYPE_LABELS[file.documentType]}
+          </Typography>
+          <Typography variant="body2">{file.fileOriginalName}</Typography>
+          <Typography variant="caption" color="text.secondary">
+            {(file.fileSize / 1024 / 1024).toFixed(2)} MB
+            {file.issueDate && ` · Issued ${file.issueDate.slice(0, 10)}`}
+            {expiryDate && ` · Expires ${expiryDate}`}
+          </Typography>
+          {isExpired && (
+            <Chip label="Expired" color="error" size="small" sx={{ ml: 1 }} />
+          )}
+        </Box>
+        <IconButton
+          component="a"
+          href={url}
+          aria-label={`Download ${file.fileOriginalName}`}
+        >
+          <Download />
+        </IconButton>
+      </Box>
+      {file.mimeType === 'application/pdf' ? (
+        <Box
+          component="iframe"
+          src={inlineUrl}
+          title={file.fileOriginalName}
+          sx={{ width: '100%', height: 480, border: 0, display: 'block' }}
+        />
+      ) : (
+        <Box
+          component="img"
+          src={inlineUrl}
+          alt={file.fileOriginalName}
+          sx={{ width: '100%', display: 'block', bgcolor: '#f1f5f9' }}
+        />
+      )}
+    </Box>
+  );
+}
+
+export default function InvestorDetailDrawer({
+  investorId,
+  canEdit,
+  onClose,
+  onChanged,
+}: {
+  investorId: string | null;
+  canEdit: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const [investor, setInvestor] = useState<InvestorJson | null>(null);
+  const [statusInfo, setStatusInfo] = useState<InvestorStatusJson | null>(null);
+  const [duplicates, setDuplicates] = useState<InvestorDuplicateJson[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [nextStatus, setNextStatus] = useState<InvestorStatus | ''>('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [mergeSource, setMergeSource] = useState<InvestorDuplicateJson | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!investorId) return;
+
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const [detail, status, possibleDuplicates] = await Promise.all([
+          fetch(`/api/investors/${investorId}`, {
+            signal: controller.signal,
+          }).then((response) =>
+            readJson<InvestorJson>(response, 'Failed to load investor')
+          ),
+          fetch(`/api/investors/${investorId}/status`, {
+            signal: controller.signal,
+          }).then((response) =>
+            readJson<InvestorStatusJson>(response, 'Failed to load status')
+          ),
+          fetch(`/api/investors/${investorId}/duplicates`, {
+            signal: controller.signal,
+          }).then((response) =>
+            readJson<InvestorDuplicateJson[]>(
+              response,
+              'Failed to load possible duplicates'
+            )
+          ),
+        ]);
+
+        setInvestor(detail);
+        setStatusInfo(status);
+        setDuplicates(possibleDuplicates);
+        setLoadError(null);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        setLoadError(
+          error instanceof Error
+            ? error.message
+            : 'An unexpected error occurred'
+        );
+      }
+    };
+
+    load();
+
+    return () => controller.abort();
+  }, [investorId, reloadKey]);
+
+  const handleClose = () => {
+    setInvestor(null);
+    setStatusInfo(null);
+    setDuplicates([]);
+    setLoadError(null);
+    setActionError(null);
+    setNextStatus('');
+    setNote('');
+    onClose();
+  };
+
+  const refresh = () => {
+    setReloadKey((key) => key + 1);
+    onChanged();
+  };
+
+  const handleStatusChange = async () => {
+    if (!investorId || !nextStatus) return;
+
+    setIsSaving(true);
+    setActionError(null);
+
+    try {
+      const response = await fetch(`/api/investors/${investorId}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: nextStatus, note: note || undefined }),
+      });
+
+      await readJson(response, 'Failed to change status');
+
+      setNextStatus('');
+      setNote('');
+      refresh();
+    } catch (error) {
+      setActionError(
+        error instanceof Error ? error.message : 'An unexpected error occurred'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!investorId) return;
+
+    setIsSaving(true);
+    setActionError(null);
+
+    try {
+      const response = await fetch(`/api/investors/${investorId}`, {
+        method: 'DELETE',
+      });
+
+      await readJson(response, 'Failed to delete investor');
+
+      setIsConfirmingDelete(false);
+      onChanged();
+      handleClose();
+    } catch (error) {
+      setIsConfirmingDelete(false);
+      setActionError(
+        error instanceof Error ? error.message : 'An unexpected error occurred'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!investorId || !mergeSource) return;
+
+    setIsSaving(true);
+    setActionError(null);
+
+    try {
+      const response = await fetch(`/api/investors/${investorId}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceId: mergeSource.investorId }),
+      });
+
+      await readJson(response, 'Failed to merge investors');
+
+      refresh();
+    } catch (error) {
+      setActionError(
+        error instanceof Error ? error.message : 'An unexpected error occurred'
+      );
+    } finally {
+      setMergeSource(null);
+      setIsSaving(false);
+    }
+  };
+
+  const isLoaded = investor?.id === investorId && statusInfo?.id === investorId;
+
+  return (
+    <Drawer
+      anchor="right"
+      open={investorId !== null}
+      onClose={handleClose}
+      slotProps={{ paper: { sx: { width: { xs: '100%', sm: 560 } } } }}
+    >
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          p: 2,
+        }}
+      >
+        <Typography variant="h6">
+          {isLoaded ? `${investor.firstName} ${investor.lastName}` : 'Investor'}
+        </Typography>
+        <IconButton onClick={handleClose} aria-label="Close">
+          <Close />
+        </IconButton>
+      </Box>
+      <Divider />
+
+      <Box sx={{ p: 3, overflowY: 'auto' }}>
+        {loadError && <Alert severity="error">{loadError}</Alert>}
+
+        {!loadError && !isLoaded && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {isLoaded && (
+          <Stack spacing={3}>
+            {actionError && (
+              <Alert severity="error" onClose={() => setActionError(null)}>
+                {actionError}
+              </Alert>
+            )}
+
+            {canEdit && (
+              <Stack direction="row" spacing={1}>
+                <Button
+                  variant="outlined"
+                  startIcon={<Edit />}
+                  onClick={() => setIsEditing(true)}
+                  disabled={isSaving}
+                >
+                  Edit
+                </Button>
+                <Button
+                  variant="outlined"
+                  color="error"
+                  startIcon={<Delete />}
+                  onClick={() => setIsConfirmingDelete(true)}
+                  disabled={isSaving}
+                >
+                  Delete
+                </Button>
+              </Stack>
+            )}
+
+            <Stack spacing={1}>
+              <DetailRow
+                label="Status"
+                value={<InvestorStatusChip status={investor.status} />}
+              />
+              <DetailRow label="First name" value={investor.firstName} />
+              <DetailRow label="Last name" value={investor.lastName} />
+              <DetailRow
+                label="Date of birth"
+                value={investor.dateOfBirth.slice(0, 10)}
+              />
+              <DetailRow label="Phone" value={investor.phoneNumber} />
+              <DetailRow
+                label="Street address"
+                value={investor.streetAddress}
+              />
+              <DetailRow
+                label={ADDRESS_FORMATS[investor.country].regionLabel}
+                value={investor.state}
+              />
+              <DetailRow
+                label={ADDRESS_FORMATS[investor.country].postalCodeLabel}
+                value={investor.zipCode}
+              />
+              <DetailRow
+                label="Country"
+                value={COUNTRY_LABELS[investor.country]}
+              />
+              <DetailRow
+                label="Submitted"
+                value={new Date(investor.createdAt).toLocaleString()}
+              />
+              <DetailRow
+                label="Last updated"
+                value={new Date(investor.updatedAt).toLocaleString()}
+              />
+            </Stack>
+
+            <Divider />
+
+            <Box>
+              <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 2 }}>
+                Review Status
+              </Typography>
+
+              {statusInfo.allowedTransitions.length > 0 ? (
+                <Stack spacing={2}>
+                  <TextField
+                    select
+                    label="Move to"
+                    size="small"
+                    value={nextStatus}
+                    onChange={(e) =>
+                      setNextStatus(e.target.value as InvestorStatus | '')
+                    }
+                    disabled={isSaving}
+                  >
+                    <MenuItem value="">
+                      <em>Select a status</em>
+                    </MenuItem>
+                    {statusInfo.allowedTransitions.map((option) => (
+                      <MenuItem key={option} value={option}>
+                        {STATUS_LABELS[option]}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField
+                    label="Reviewer note"
+                    size="small"
+                    multiline
+                    minRows={2}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    helperText="Required when rejecting or requesting more information"
+                    disabled={isSaving}
+                    slotProps={{
+                      htmlInput: { maxLength: STATUS_NOTE_MAX_LENGTH },
+                    }}
+                  />
+                  <Button
+                    variant="contained"
+                    onClick={handleStatusChange}
+                    disabled={isSaving || !nextStatus}
+                    sx={{ alignSelf: 'flex-start' }}
+                  >
+                    Update Status
+                  </Button>
+                </Stack>
+              ) : (
+                <Typography variant="body2" color="text.secondary">
+                  No status changes are available to you.
+                </Typography>
+              )}
+
+              <Stack spacing={1.5} sx={{ mt: 3 }}>
+                {[...statusInfo.history].reverse().map((change) => (
+                  <Box key={change.id}>
+                    <Typography variant="body2">
+                      {change.fromStatus
+                        ? `${STATUS_LABELS[change.fromStatus]} → ${STATUS_LABELS[change.toStatus]}`
+                        : STATUS_LABELS[change.toStatus]}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {new Date(change.createdAt).toLocaleString()}
+                      {change.changedBy && ` by ${change.changedBy.email}`}
+                    </Typography>
+                    {change.note && (
+                      <Typography
+                        variant="body2"
+                        color="text.secondary"
+                        sx={{ whiteSpace: 'pre-wrap' }}
+                      >
+                        {change.note}
+                      </Typography>
+                    )}
+                  </Box>
+                ))}
+              </Stack>
+            </Box>
+
+            {duplicates.length > 0 && (
+              <>
+                <Divider />
+
+                <Box>
+                  <Typography
+                    variant="subtitle1"
+                    sx={{ fontWeight: 600, mb: 2 }}
+                  >
+                    Possible Duplicates
+                  </Typography>
+                  <Stack spacing={1.5}>
+                    {duplicates.map((duplicate) => (
+                      <Box
+                        key={duplicate.investorId}
+                        sx={{
+                          display: 'flex',
+                          alignItems: 'center',
+                          justifyContent: 'space-between',
+                          gap: 1,
+                        }}
+                      >
+                        <Box>
+                          <Typography variant="body2">
+                            {duplicate.firstName} {duplicate.lastName} (
+                            {duplicate.state} {duplicate.zipCode})
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {Math.round(duplicate.score * 100)}% match on{' '}
+                            {duplicate.matchedOn
+                              .map((signal) => MATCH_LABELS[signal])
+                              .join(', ') || 'partial name'}
+                            {' · '}submitted{' '}
+                            {new Date(duplicate.createdAt).toLocaleDateString()}
+                          </Typography>
+                        </Box>
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <InvestorStatusChip status={duplicate.status} />
+                          {canEdit && (
+                            <Button
+                              size="small"
+                              onClick={() => setMergeSource(duplicate)}
+                              disabled={isSaving}
+                            >
+                              Merge
+                            </Button>
+                          )}
+                        </Stack>
+                      </Box>
+                    ))}
+                  </Stack>
+                </Box>
+              </>
+            )}
+
+            <Divider />
+
+            <Box>
+              <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 2 }}>
+                Documents
+              </Typography>
+              <Stack spacing={2}>
+                {investor.files?.map((file) => (
+                  <DocumentPreview
+                    key={file.id}
+                    investorId={investor.id}
+                    file={file}
+                  />
+                ))}
+              </Stack>
+            </Box>
+          </Stack>
+        )}
+      </Box>
+
+      {isLoaded && canEdit && (
+        <InvestorEditDialog
+          investor={investor}
+          open={isEditing}
+          onClose={() => setIsEditing(false)}
+          onSaved={() => {
+            setIsEditing(false);
+            refresh();
+          }}
+        />
+      )}
+
+      <Dialog
+        open={isConfirmingDelete}
+        onClose={() => setIsConfirmingDelete(false)}
+      >
+        <DialogTitle>Delete investor?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            The record is hidden immediately and permanently removed once the
+            retention period has passed. An admin can restore it until then.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => setIsConfirmingDelete(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button color="error" onClick={handleDelete} disabled={isSaving}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={mergeSource !== null} onClose={() => setMergeSource(null)}>
+        <DialogTitle>Merge duplicate?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            The documents and status history of {mergeSource?.firstName}{' '}
+            {mergeSource?.lastName} move to this record, and the duplicate is
+            deleted. This record&apos;s details are kept as they are.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setMergeSource(null)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button color="error" onClick={handleMerge} disabled={isSaving}>
+            Merge
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Drawer>
+  );
+}
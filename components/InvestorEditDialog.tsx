@@ -0,0 +1,280 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+} from '@mui/material';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  applyServerErrors,
+  investorUpdateSchema,
+  type InvestorUpdateFormData,
+} from '@/lib/form-validation';
+import {
+  COUNTRIES,
+  COUNTRY_LABELS,
+  ERROR_MESSAGES,
+  getAddressFormat,
+} from '@/lib/validation-constants';
+import type { InvestorJson } from '@/types/investor';
+
+const FIELDS: Array<{
+  name: Exclude<keyof InvestorUpdateFormData, 'state' | 'zipCode' | 'country'>;
+  label: string;
+  type?: string;
+}> = [
+  { name: 'firstName', label: 'First Name' },
+  { name: 'lastName', label: 'Last Name' },
+  { name: 'dateOfBirth', label: 'Date of Birth', type: 'date' },
+  { name: 'phoneNumber', label: 'Phone Number' },
+  { name: 'streetAddress', label: 'Street Address' },
+];
+
+export default function InvestorEditDialog({
+  investor,
+  open,
+  onClose,
+  onSaved,
+}: {
+  investor: InvestorJson;
+  open: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setError,
+    setValue,
+    watch,
+    formState: { errors, dirtyFields },
+  } = useForm<InvestorUpdateFormData>({
+    resolver: zodResolver(investorUpdateSchema),
+    values: {
+      firstName: investor.firstName,
+      lastName: investor.lastName,
+      dateOfBirth: investor.dateOfBirth.slice(0, 10),
+      phoneNumber: investor.phoneNumber,
+      streetAddress: investor.streetAddress,
+      state: investor.state,
+      zipCode: investor.zipCode,
+      country: investor.country,
+    },
+  });
+
+  const addressFormat = getAddressFormat(watch('country'));
+
+  const handleClose = () => {
+    reset();
+    setSubmitError(null);
+    onClose();
+  };
+
+  const onSubmit = async (data: InvestorUpdateFormData) => {
+    // PATCH only what changed so the audit log shows the real edit
+    const changes = Object.fromEntries(
+      Object.entries(data).filter(
+        ([field]) => dirtyFields[field as keyof InvestorUpdateFormData]
+      )
+    );
+
+    if (Object.keys(changes).length === 0) {
+      handleClose();
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      const response = await fetch(`/api/investors/${investor.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+
+        if (error.errors) {
+          const unmatched = applyServerErrors(error.errors, setError, {
+            firstName: 'firstName',
+            lastName: 'lastName',
+            dateOfBirth: 'dateOfBirth',
+            phoneNumber: 'phoneNumber',
+            streetAddress: 'streetAddress',
+            state: 'state',
+            zipCode: 'zipCode',
+            country: 'country',
+          });
+          throw new Error(unmatched[0] || ERROR_MESSAGES.FORM_FIELD_ERRORS);
+        }
+
+        throw new Error(error.error || 'Failed to update investor');
+      }
+
+      onSaved();
+    } catch (error) {
+      setSubmitError(
+        error instanceof Error ? error.message : 'An unexpected error occurred'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="sm">
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <DialogTitle>Edit Investor</DialogTitle>
+        <DialogContent>
+          {submitError && (
+            <Alert
+              severity="error"
+              sx={{ mb: 2 }}
+              onClose={() => setSubmitError(null)}
+            >
+              {submitError}
+            </Alert>
+          )}
+
+          <Box
+            sx={{
+              display: 'grid',
+              gap: 2,
+              pt: 1,
+              gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' },
+            }}
+          >
+            {FIELDS.map(({ name, label, type }) => (
+              <Controller
+                key={name}
+                name={name}
+                control={control}
+                render={({ field }) => (
+                  <TextField
+                    {...field}
+                    label={label}
+                    type={type}
+                    fullWidth
+                    required
+                    slotProps={
+                      type === 'date'
+                        ? { inputLabel: { shrink: true } }
+                        : undefined
+                    }
+                    error={!!errors[name]}
+                    helperText={errors[name]?.message}
+                    disabled={isSubmitting}
+                  />
+                )}
+              />
+            ))}
+
+            <Controller
+              name="country"
+              control={control}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  onChange={(event) => {
+                    field.onChange(event);
+                    // Regions and postal codes don't carry over, and both
+                    // must be sent with the new country
+                    setValue('state', '', { shouldDirty: true });
+                    setValue('zipCode', '', { shouldDirty: true });
+                  }}
+                  select
+                  label="Country"
+                  fullWidth
+                  required
+                  error={!!errors.country}
+                  helperText={errors.country?.message}
+                  disabled={isSubmitting}
+                >
+                  {COUNTRIES.map((country) => (
+                    <MenuItem key={country} value={country}>
+                      {COUNTRY_LABELS[country]}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            />
+
+            <Controller
+              name="state"
+              control={control}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  select
+                  label={addressFormat.regionLabel}
+                  fullWidth
+                  required
+                  error={!!errors.state}
+                  helperText={errors.state?.message}
+                  disabled={isSubmitting}
+                >
+                  {addressFormat.regions.map((state) => (
+                    <MenuItem key={state.value} value={state.value}>
+                      {state.label}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            />
+
+            <Controller
+              name="zipCode"
+              control={control}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  label={addressFormat.postalCodeLabel}
+                  fullWidth
+                  required
+                  error={!!errors.zipCode}
+                  helperText={
+                    errors.zipCode?.message || addressFormat.postalCodeHint
+                  }
+                  disabled={isSubmitting}
+                />
+              )}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isSubmitting}
+            startIcon={
+              isSubmitting ? (
+                <CircularProgress size={20} color="inherit" />
+              ) : null
+            }
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import {
   Box,
   TextField,
@@ -15,31 +15,63 @@ import {
   Backdrop,
   Snackbar,
 } from '@mui/material';
-import {
-  Person,
-  Phone,
-  Home,
-  Upload,
-  CheckCircle,
-} from '@mui/icons-material';
+import { Person, Phone, Home, Upload, CheckCircle } from '@mui/icons-material';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import {
+  applyServerErrors,
   investorSchema,
-  US_STATES,
   type InvestorFormData,
 } from '@/lib/form-validation';
+import {
+  COUNTRIES,
+  COUNTRY_LABELS,
+  DOCUMENT_REQUIREMENTS,
+  DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LABELS,
+  ERROR_MESSAGES,
+  describeDocumentRequirement,
+  getAddressFormat,
+} from '@/lib/validation-constants';
+
+/**
+ * Form field showing each API validation error field
+ * Per-file fields are all shown under the document upload
+ */
+const SERVER_ERROR_FIELDS = {
+  firstName: 'firstName',
+  lastName: 'lastName',
+  dateOfBirth: 'dateOfBirth',
+  phoneNumber: 'phoneNumber',
+  streetAddress: 'streetAddress',
+  state: 'state',
+  zipCode: 'zipCode',
+  country: 'country',
+  files: 'documents',
+  documentType: 'documents',
+  issueDate: 'documents',
+  expiryDate: 'documents',
+} as const;
+
+/**
+ * Client errors after which the submission may still complete on the server
+ */
+const RETRYABLE_STATUSES: ReadonlySet<number> = new Set([408, 409, 429]);
 
 export default function InvestorForm() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitSuccess, setSubmitSuccess] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
-  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  // Idempotency-Key of the submission in flight; kept until the server answers
+  const idempotencyKeyRef = useRef<string | null>(null);
 
   const {
     control,
     handleSubmit,
     reset,
+    setError,
+    setValue,
+    watch,
     formState: { errors },
   } = useForm<InvestorFormData>({
     resolver: zodResolver(investorSchema),
@@ -51,9 +83,14 @@ export default function InvestorForm() {
       streetAddress: '',
       state: '',
       zipCode: '',
+      country: 'US',
+      documents: [],
     },
   });
 
+  // The region dropdown and postal code field follow the chosen country
+  const addressFormat = getAddressFormat(watch('country'));
+
   const onSubmit = async (data: InvestorFormData) => {
     setIsSubmitting(true);
     setSubmitError(null);
@@ -70,19 +107,47 @@ export default function InvestorForm() {
       formData.append('streetAddress', data.streetAddress);
       formData.append('state', data.state);
       formData.append('zipCode', data.zipCode);
+      formData.append('country', data.country);
 
-      // Append all files
-      for (let i = 0; i < data.files.length; i++) {
-        formData.append('files', data.files[i]);
+      // Each file is paired with its document type and dates by position
+      for (const document of data.documents) {
+        formData.append('files', document.file);
+        formData.append('documentType', document.documentType);
+        formData.append('issueDate', document.issueDate);
+        formData.append('expiryDate', document.expiryDate);
       }
 
+      // Reused when this submission is retried, so it cannot create twice
+      idempotencyKeyRef.current ??= crypto.randomUUID();
+
       const response = await fetch('/api/investors', {
         method: 'POST',
+        headers: { 'Idempotency-Key': idempotencyKeyRef.current },
         body: formData,
       });
 
+      // A success or a definitive rejection ends this submission. Keep the
+      // key while the outcome is unknown (409 still in progress, 408, 429,
+      // 5xx), so a retry cannot create the investor a second time
+      if (
+        response.ok ||
+        (response.status < 500 && !RETRYABLE_STATUSES.has(response.status))
+      ) {
+        idempotencyKeyRef.current = null;
+      }
+
       if (!response.ok) {
         const error = await response.json();
+
+        if (error.errors) {
+          const unmatched = applyServerErrors(
+            error.errors,
+            setError,
+            SERVER_ERROR_FIELDS
+          );
+          throw new Error(unmatched[0] || ERROR_MESSAGES.FORM_FIELD_ERRORS);
+        }
+
         throw new Error(error.error || 'Failed to submit form');
       }
 
@@ -94,7 +159,6 @@ export default function InvestorForm() {
 
       setSubmitSuccess(true);
       reset();
-      setSelectedFiles([]);
 
       // Scroll to top smoothly
       window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -291,6 +355,35 @@ export default function InvestorForm() {
               <Home /> Address Information
             </Typography>
 
+            <Controller
+              name="country"
+              control={control}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  onChange={(event) => {
+                    field.onChange(event);
+                    // Regions and postal codes don't carry over
+                    setValue('state', '');
+                    setValue('zipCode', '');
+                  }}
+                  select
+                  label="Country"
+                  fullWidth
+                  required
+                  error={!!errors.country}
+                  helperText={errors.country?.message}
+                  disabled={isSubmitting}
+                >
+                  {COUNTRIES.map((country) => (
+                    <MenuItem key={country} value={country}>
+                      {COUNTRY_LABELS[country]}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            />
+
             <Controller
               name="streetAddress"
               control={control}
@@ -321,7 +414,7 @@ export default function InvestorForm() {
                   <TextField
                     {...field}
                     select
-                    label="State"
+                    label={addressFormat.regionLabel}
                     fullWidth
                     required
                     error={!!errors.state}
@@ -329,9 +422,9 @@ export default function InvestorForm() {
                     disabled={isSubmitting}
                   >
                     <MenuItem value="">
-                      <em>Select a state</em>
+                      <em>{addressFormat.regionPrompt}</em>
                     </MenuItem>
-                    {US_STATES.map((state) => (
+                    {addressFormat.regions.map((state) => (
                       <MenuItem key={state.value} value={state.value}>
                         {state.label}
                       </MenuItem>
@@ -346,13 +439,13 @@ export default function InvestorForm() {
                 render={({ field }) => (
                   <TextField
                     {...field}
-                    label="ZIP Code"
+                    label={addressFormat.postalCodeLabel}
                     fullWidth
                     required
-                    placeholder="12345"
+                    placeholder={addressFormat.postalCodePlaceholder}
                     error={!!errors.zipCode}
                     helperText={
-                      errors.zipCode?.message || 'US ZIP: 12345 or 12345-6789'
+                      errors.zipCode?.message || addressFormat.postalCodeHint
                     }
                     disabled={isSubmitting}
                     slotProps={{ htmlInput: { maxLength: 10 } }}
@@ -369,103 +462,196 @@ export default function InvestorForm() {
               <Upload /> Document Upload
             </Typography>
 
+            <Typography variant="body2" color="text.secondary">
+              PDF, JPG, or PNG, max 3MB each. Enter the issue and expiry dates
+              printed on a document if it has them; expired documents are not
+              accepted. Required:{' '}
+              {DOCUMENT_REQUIREMENTS.map(
+                (requirement) =>
+                  `${requirement.label} (${describeDocumentRequirement(requirement)})`
+              ).join('; ')}
+            </Typography>
+
             <Controller
-              name="files"
+              name="documents"
               control={control}
-              render={({ field: { onChange, value, ...field } }) => (
+              render={({ field: { onChange, value } }) => (
                 <Box>
-                  <Button
-                    variant="outlined"
-                    component="label"
-                    fullWidth
-                    startIcon={<Upload />}
-                    disabled={isSubmitting}
-                    sx={{ p: 2 }}
-                  >
-                    {selectedFiles.length === 0
-                      ? 'Upload Documents (PDF, JPG, PNG - Max 3MB each)'
-                      : `${selectedFiles.length} file${selectedFiles.length > 1 ? 's' : ''} selected`}
-                    <input
-                      {...field}
-                      type="file"
-                      hidden
-                      multiple
-                      accept=".pdf,.jpg,.jpeg,.png"
-                      onChange={(e) => {
-                        onChange(e.target.files);
-                        if (e.target.files) {
-                          setSelectedFiles(Array.from(e.target.files));
-                        }
-                      }}
-                    />
-                  </Button>
-                  {errors.files && (
-                    <Typography
-                      variant="caption"
-                      color="error"
-                      sx={{ mt: 1, display: 'block' }}
-                    >
-                      {String(errors.files.message)}
-                    </Typography>
-                  )}
-                  {selectedFiles.length > 0 && (
-                    <Box sx={{ mt: 2 }}>
-                      <Typography
-                        variant="body2"
-                        color="text.secondary"
-                        sx={{ mb: 1, fontWeight: 600 }}
-                      >
-                        Selected Files:
-                      </Typography>
-                      <Stack spacing={1}>
-                        {selectedFiles.map((file, index) => (
+                  <Stack spacing={2}>
+                    {DOCUMENT_TYPES.map((documentType) => {
+                      const slotDocuments = value.filter(
+                        (document) => document.documentType === documentType
+                      );
+
+                      return (
+                        <Box
+                          key={documentType}
+                          sx={{
+                            p: 1.5,
+                            border: '1px solid',
+                            borderColor: 'divider',
+                            borderRadius: 1,
+                          }}
+                        >
                           <Box
-                            key={index}
                             sx={{
                               display: 'flex',
                               alignItems: 'center',
                               justifyContent: 'space-between',
-                              p: 1.5,
-                              bgcolor: 'background.paper',
-                              border: '1px solid',
-                              borderColor: 'divider',
-                              borderRadius: 1,
+                              gap: 1,
                             }}
                           >
-                            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                              <CheckCircle color="success" fontSize="small" />
-                              <Box>
-                                <Typography variant="body2">
-                                  {file.name}
-                                </Typography>
-                                <Typography
-                                  variant="caption"
-                                  color="text.secondary"
-                                >
-                                  {(file.size / 1024 / 1024).toFixed(2)} MB
-                                </Typography>
-                              </Box>
-                            </Box>
+                            <Typography
+                              variant="body2"
+                              sx={{ fontWeight: 600 }}
+                            >
+                              {DOCUMENT_TYPE_LABELS[documentType]}
+                            </Typography>
                             <Button
+                              variant="outlined"
                               size="small"
-                              color="error"
-                              onClick={() => {
-                                const newFiles = selectedFiles.filter(
-                                  (_, i) => i !== index
-                                );
-                                setSelectedFiles(newFiles);
-                                const dt = new DataTransfer();
-                                newFiles.forEach((f) => dt.items.add(f));
-                                onChange(dt.files);
-                              }}
+                              component="label"
+                              startIcon={<Upload />}
                               disabled={isSubmitting}
                             >
-                              Remove
+                              Upload
+                              <input
+                                type="file"
+                                hidden
+                                multiple
+                                accept=".pdf,.jpg,.jpeg,.png"
+                                onChange={(e) => {
+                                  const added = Array.from(
+                                    e.target.files ?? []
+                                  ).map((file) => ({
+                                    file,
+                                    documentType,
+                                    issueDate: '',
+                                    expiryDate: '',
+                                  }));
+                                  onChange([...value, ...added]);
+                                  // Allow picking the same file again after removing it
+                                  e.target.value = '';
+                                }}
+                              />
                             </Button>
                           </Box>
-                        ))}
-                      </Stack>
-                    </Box>
+                          {slotDocuments.length > 0 && (
+                            <Stack spacing={1} sx={{ mt: 1.5 }}>
+                              {slotDocuments.map((document) => (
+                                <Box
+                                  key={value.indexOf(document)}
+                                  sx={{
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    justifyContent: 'space-between',
+                                    p: 1.5,
+                                    bgcolor: 'background.paper',
+                                    border: '1px solid',
+                                    borderColor: 'divider',
+                                    borderRadius: 1,
+                                  }}
+                                >
+                                  <Box
+                                    sx={{
+                                      display: 'flex',
+                                      alignItems: 'center',
+                                      gap: 1,
+                                    }}
+                                  >
+                                    <CheckCircle
+                                      color="success"
+                                      fontSize="small"
+                                    />
+                                    <Box>
+                                      <Typography variant="body2">
+                                        {document.file.name}
+                                      </Typography>
+                                      <Typography
+                                        variant="caption"
+                                        color="text.secondary"
+                                      >
+                                        {(
+                                          document.file.size /
+                                          1024 /
+                                          1024
+                                        ).toFixed(2)}{' '}
+                                        MB
+                                      </Typography>
+                                    </Box>
+                                  </Box>
+                                  <Box
+                                    sx={{
+                                      display: 'flex',
+                                      alignItems: 'center',
+                                      gap: 1,
+                                    }}
+                                  >
+                                    {(['issueDate', 'expiryDate'] as const).map(
+                                      (dateField) => (
+                                        <TextField
+                                          key={dateField}
+                                          label={
+                                            dateField === 'issueDate'
+                                              ? 'Issued'
+                                              : 'Expires'
+                                          }
+                                          type="date"
+                                          size="small"
+                                          value={document[dateField]}
+                                          onChange={(e) =>
+                                            onChange(
+                                              value.map((item) =>
+                                                item === document
+                                                  ? {
+                                                      ...item,
+                                                      [dateField]:
+                                                        e.target.value,
+                                                    }
+                                                  : item
+                                              )
+                                            )
+                                          }
+                                          slotProps={{
+                                            inputLabel: { shrink: true },
+                                          }}
+                                          disabled={isSubmitting}
+                                        />
+                                      )
+                                    )}
+                                  </Box>
+                                  <Button
+                                    size="small"
+                                    color="error"
+                                    onClick={() =>
+                                      onChange(
+                                        value.filter(
+                                          (item) => item !== document
+                                        )
+                                      )
+                                    }
+                                    disabled={isSubmitting}
+                                  >
+                                    Remove
+                                  </Button>
+                                </Box>
+                              ))}
+                            </Stack>
+                          )}
+                        </Box>
+                      );
+                    })}
+                  </Stack>
+                  {errors.documents && (
+                    <Typography
+                      variant="caption"
+                      color="error"
+                      sx={{ mt: 1, display: 'block' }}
+                    >
+                      {errors.documents.message ||
+                        errors.documents.root?.message ||
+                        'Please check the uploaded documents'}
+                    </Typography>
                   )}
                 </Box>
               )}
@@ -0,0 +1,368 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  LinearProgress,
+  ListSubheader,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TableSortLabel,
+  TextField,
+  Typography,
+} from '@mui/material';
+import type { InvestorStatus } from '@prisma/client';
+import InvestorDetailDrawer from '@/components/InvestorDetailDrawer';
+import InvestorStatusChip, {
+  STATUS_LABELS,
+} from '@/components/InvestorStatusChip';
+import {
+  ADDRESS_FORMATS,
+  COUNTRIES,
+  COUNTRY_LABELS,
+  INVESTOR_STATUSES,
+  SEARCH_VALIDATION,
+} from '@/lib/validation-constants';
+import type { InvestorJson, InvestorSearchParams } from '@/types/investor';
+
+type SortField = NonNullable<InvestorSearchParams['sortBy']>;
+type SortOrder = NonNullable<InvestorSearchParams['sortOrder']>;
+
+interface Column {
+  label: string;
+  sortBy?: SortField;
+  render: (investor: InvestorJson) => React.ReactNode;
+}
+
+const COLUMNS: Column[] = [
+  {
+    label: 'Name',
+    sortBy: 'lastName',
+    render: (investor) => `${investor.lastName}, ${investor.firstName}`,
+  },
+  { label: 'Phone', render: (investor) => investor.phoneNumber },
+  {
+    label: 'State / Province',
+    sortBy: 'state',
+    render: (investor) => `${investor.state}, ${investor.country}`,
+  },
+  {
+    label: 'Status',
+    sortBy: 'status',
+    render: (investor) => <InvestorStatusChip status={investor.status} />,
+  },
+  {
+    label: 'Submitted',
+    sortBy: 'createdAt',
+    render: (investor) => new Date(investor.createdAt).toLocaleDateString(),
+  },
+];
+
+const PAGE_SIZE_OPTIONS = [10, 20, 50, 100];
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function InvestorReviewDashboard({
+  canEdit,
+}: {
+  canEdit: boolean;
+}) {
+  const [investors, setInvestors] = useState<InvestorJson[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [queryInput, setQueryInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [state, setState] = useState('');
+  const [status, setStatus] = useState<InvestorStatus | ''>('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState<number>(
+    SEARCH_VALIDATION.DEFAULT_PAGE_SIZE
+  );
+  const [sortBy, setSortBy] = useState<SortField>(
+    SEARCH_VALIDATION.DEFAULT_SORT_BY
+  );
+  const [sortOrder, setSortOrder] = useState<SortOrder>(
+    SEARCH_VALIDATION.DEFAULT_SORT_ORDER
+  );
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setQuery(queryInput.trim());
+      setPage(0);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [queryInput]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams({
+      page: String(page + 1),
+      pageSize: String(pageSize),
+      sortBy,
+      sortOrder,
+    });
+
+    if (query) params.set('query', query);
+    if (state) params.set('state', state);
+    if (status) params.set('status', status);
+    if (startDate) params.set('startDate', startDate);
+    if (endDate) params.set('endDate', endDate);
+
+    const load = async () => {
+      setIsLoading(true);
+
+      try {
+        const response = await fetch(`/api/investors?${params}`, {
+          signal: controller.signal,
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load investors');
+        }
+
+        setInvestors(result.data);
+        setTotalCount(result.pagination.totalCount);
+        setLoadError(null);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        setLoadError(
+          error instanceof Error
+            ? error.message
+            : 'An unexpected error occurred'
+        );
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => controller.abort();
+  }, [
+    query,
+    state,
+    status,
+    startDate,
+    endDate,
+    page,
+    pageSize,
+    sortBy,
+    sortOrder,
+    reloadKey,
+  ]);
+
+  const handleSort = (field: SortField) => {
+    if (sortBy === field) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(field);
+      setSortOrder(field === 'createdAt' ? 'desc' : 'asc');
+    }
+    setPage(0);
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 4 }}>
+      <Box sx={{ mb: 3 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Investor Review
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Review submitted investor information and documents.
+        </Typography>
+      </Box>
+
+      <Box
+        sx={{
+          display: 'grid',
+          gap: 2,
+          mb: 3,
+          gridTemplateColumns: {
+            xs: '1fr',
+            sm: '1fr 1fr',
+            md: '2fr 1fr 1fr 1fr 1fr',
+          },
+        }}
+      >
+        <TextField
+          label="Search by name"
+          value={queryInput}
+          onChange={(e) => setQueryInput(e.target.value)}
+          slotProps={{
+            htmlInput: { maxLength: SEARCH_VALIDATION.MAX_QUERY_LENGTH },
+          }}
+        />
+
+        <TextField
+          select
+          label="State / Province"
+          value={state}
+          onChange={(e) => {
+            setState(e.target.value);
+            setPage(0);
+          }}
+        >
+          <MenuItem value="">
+            <em>All states and provinces</em>
+          </MenuItem>
+          {COUNTRIES.flatMap((country) => [
+            <ListSubheader key={country}>
+              {COUNTRY_LABELS[country]}
+            </ListSubheader>,
+            ...ADDRESS_FORMATS[country].regions.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            )),
+          ])}
+        </TextField>
+
+        <TextField
+          select
+          label="Status"
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value as InvestorStatus | '');
+            setPage(0);
+          }}
+        >
+          <MenuItem value="">
+            <em>All statuses</em>
+          </MenuItem>
+          {INVESTOR_STATUSES.map((option) => (
+            <MenuItem key={option} value={option}>
+              {STATUS_LABELS[option]}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <TextField
+          label="Submitted from"
+          type="date"
+          value={startDate}
+          onChange={(e) => {
+            setStartDate(e.target.value);
+            setPage(0);
+          }}
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+
+        <TextField
+          label="Submitted to"
+          type="date"
+          value={endDate}
+          onChange={(e) => {
+            setEndDate(e.target.value);
+            setPage(0);
+          }}
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+      </Box>
+
+      {loadError && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {loadError}
+        </Alert>
+      )}
+
+      <TableContainer
+        sx={{ border: '1px solid', borderColor: 'divider', borderRadius: 1 }}
+      >
+        {isLoading && <LinearProgress />}
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              {COLUMNS.map((column) => (
+                <TableCell
+                  key={column.label}
+                  sortDirection={sortBy === column.sortBy ? sortOrder : false}
+                  sx={{ fontWeight: 600 }}
+                >
+                  {column.sortBy ? (
+                    <TableSortLabel
+                      active={sortBy === column.sortBy}
+                      direction={sortBy === column.sortBy ? sortOrder : 'asc'}
+                      onClick={() => handleSort(column.sortBy!)}
+                    >
+                      {column.label}
+                    </TableSortLabel>
+                  ) : (
+                    column.label
+                  )}
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {investors.map((investor) => (
+              <TableRow
+                key={investor.id}
+                hover
+                selected={investor.id === selectedId}
+                onClick={() => setSelectedId(investor.id)}
+                sx={{ cursor: 'pointer' }}
+              >
+                {COLUMNS.map((column) => (
+                  <TableCell key={column.label}>
+                    {column.render(investor)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+            {!isLoading && investors.length === 0 && (
+              <TableRow>
+                <TableCell
+                  colSpan={COLUMNS.length}
+                  align="center"
+                  sx={{ py: 4 }}
+                >
+                  <Typography variant="body2" color="text.secondary">
+                    No investors match these filters.
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <TablePagination
+        component="div"
+        count={totalCount}
+        page={page}
+        rowsPerPage={pageSize}
+        rowsPerPageOptions={PAGE_SIZE_OPTIONS}
+        onPageChange={(_, newPage) => setPage(newPage)}
+        onRowsPerPageChange={(e) => {
+          setPageSize(parseInt(e.target.value, 10));
+          setPage(0);
+        }}
+      />
+
+      <InvestorDetailDrawer
+        investorId={selectedId}
+        canEdit={canEdit}
+        onClose={() => setSelectedId(null)}
+        onChanged={() => setReloadKey((key) => key + 1)}
+      />
+    </Paper>
+  );
+}
@@ -0,0 +1,34 @@
+import { Chip, type ChipProps } from '@mui/material';
+import type { InvestorStatus } from '@prisma/client';
+
+export const STATUS_LABELS: Record<InvestorStatus, string> = {
+  submitted: 'Submitted',
+  in_review: 'In Review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  needs_more_info: 'Needs More Info',
+};
+
+const STATUS_COLORS: Record<InvestorStatus, ChipProps['color']> = {
+  submitted: 'default',
+  in_review: 'info',
+  approved: 'success',
+  rejected: 'error',
+  needs_more_info: 'warning',
+};
+
+export default function InvestorStatusChip({
+  status,
+  size = 'small',
+}: {
+  status: InvestorStatus;
+  size?: ChipProps['size'];
+}) {
+  return (
+    <Chip
+      label={STATUS_LABELS[status]}
+      color={STATUS_COLORS[status]}
+      size={size}
+    />
+  );
+}
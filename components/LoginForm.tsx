@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  credentialsSchema,
+  type CredentialsFormData,
+} from '@/lib/form-validation';
+
+export default function LoginForm() {
+  const router = useRouter();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<CredentialsFormData>({
+    resolver: zodResolver(credentialsSchema),
+    defaultValues: { email: '', password: '' },
+  });
+
+  const onSubmit = async (data: CredentialsFormData) => {
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to sign in');
+      }
+
+      router.replace('/');
+      router.refresh();
+    } catch (error) {
+      setSubmitError(
+        error instanceof Error ? error.message : 'An unexpected error occurred'
+      );
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 4 }}>
+      <Box sx={{ mb: 3 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          {mode === 'login' ? 'Sign In' : 'Create Account'}
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          {mode === 'login'
+            ? 'Sign in to submit or review investor information.'
+            : 'Create an account to submit your investor information.'}
+        </Typography>
+      </Box>
+
+      {submitError && (
+        <Alert
+          severity="error"
+          sx={{ mb: 3 }}
+          onClose={() => setSubmitError(null)}
+        >
+          {submitError}
+        </Alert>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <Stack spacing={3}>
+          <Controller
+            name="email"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Email"
+                type="email"
+                autoComplete="email"
+                fullWidth
+                required
+                error={!!errors.email}
+                helperText={errors.email?.message}
+                disabled={isSubmitting}
+              />
+            )}
+          />
+
+          <Controller
+            name="password"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Password"
+                type="password"
+                autoComplete={
+                  mode === 'login' ? 'current-password' : 'new-password'
+                }
+                fullWidth
+                required
+                error={!!errors.password}
+                helperText={errors.password?.message}
+                disabled={isSubmitting}
+              />
+            )}
+          />
+
+          <Button
+            type="submit"
+            variant="contained"
+            size="large"
+            disabled={isSubmitting}
+            startIcon={
+              isSubmitting ? (
+                <CircularProgress size={20} color="inherit" />
+              ) : null
+            }
+          >
+            {mode === 'login' ? 'Sign In' : 'Create Account'}
+          </Button>
+
+          <Button
+            variant="text"
+            disabled={isSubmitting}
+            onClick={() => {
+              setMode(mode === 'login' ? 'register' : 'login');
+              setSubmitError(null);
+            }}
+          >
+            {mode === 'login'
+              ? 'Need an account? Create one'
+              : 'Already have an account? Sign in'}
+          </Button>
+        </Stack>
+      </form>
+    </Paper>
+  );
+}
@@ -0,0 +1,333 @@
+/**
+ * Audit trail of investor and document access
+ *
+ * Every investor route records who read or changed which record. Changes are
+ * recorded with the transaction client that makes them, so a change and its
+ * audit event commit or roll back together. Reads are recorded before the
+ * response is sent: if the event cannot be written the request fails rather
+ * than going unrecorded.
+ *
+ * audit_events is append-only (enforced by a database trigger). Diffs of PII
+ * fields are stored encrypted like the investors table itself.
+ */
+
+import { isIP } from 'net';
+import type { NextRequest } from 'next/server';
+import {
+  AuditAction,
+  type AuditEvent,
+  type Prisma,
+  type UserRole,
+} from '@prisma/client';
+import { db, type TransactionClient } from '@/lib/db';
+import type { SessionUser } from '@/lib/auth';
+import { encryptValue } from '@/lib/encryption';
+import { decryptIfEncrypted } from '@/lib/pii-encryption';
+import type { ValidationError } from '@/lib/investor-validation';
+import {
+  ERROR_MESSAGES,
+  SEARCH_VALIDATION,
+  isValidUuid,
+} from '@/lib/validation-constants';
+
+/**
+ * Roles that may query the audit log
+ */
+export const AUDITOR_ROLES: UserRole[] = ['auditor', 'admin'];
+
+/**
+ * Investor fields tracked in change diffs
+ */
+const AUDITED_FIELDS = [
+  'firstName',
+  'lastName',
+  'dateOfBirth',
+  'phoneNumber',
+  'streetAddress',
+  'state',
+  'zipCode',
+  'country',
+  'status',
+  'deletedAt',
+  'mergedIntoId',
+] as const;
+
+/**
+ * Fields whose diff values are encrypted before they are stored
+ */
+const ENCRYPTED_FIELDS: ReadonlySet<string> = new Set([
+  'dateOfBirth',
+  'phoneNumber',
+  'streetAddress',
+]);
+
+export interface FieldChange {
+  from: string | null;
+  to: string | null;
+}
+
+export type AuditChanges = Record<string, FieldChange>;
+
+/**
+ * Who is acting and from where, captured once per request
+ */
+export interface AuditContext {
+  actor: SessionUser;
+  ipAddress: string | null;
+}
+
+export interface AuditEventInput {
+  action: AuditAction;
+  investorId?: string | null;
+  fileId?: string | null;
+  changes?: AuditChanges | null;
+}
+
+export interface AuditQueryParams {
+  investorId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  cursor?: string;
+  pageSize: number;
+}
+
+export interface AuditQueryValidationResult {
+  isValid: boolean;
+  errors: ValidationError[];
+  data?: AuditQueryParams;
+}
+
+type AuditClient = Pick<TransactionClient, 'auditEvent'>;
+
+/**
+ * Number of reverse proxies in front of the app, from the environment
+ * Each one appends the address it received the request from to
+ * X-Forwarded-For; anything left of those entries was sent by the client
+ */
+function getTrustedProxyCount(): number {
+  const value = process.env.TRUSTED_PROXY_COUNT;
+
+  if (value === undefined || value === '') {
+    return 0;
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error('TRUSTED_PROXY_COUNT must be a non-negative integer');
+  }
+
+  return parseInt(value, 10);
+}
+
+/**
+ * Client IP as seen by the outermost trusted proxy
+ * Null without trusted proxies, when the header has fewer entries than there
+ * are proxies, or when the entry is not an IP address
+ */
+function getClientIp(request: NextRequest): string | null {
+  const proxies = getTrustedProxyCount();
+
+  if (proxies === 0) {
+    return null;
+  }
+
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const candidate = hops[hops.length - proxies];
+
+  return candidate && isIP(candidate) ? candidate : null;
+}
+
+/**
+ * Build the audit context for a request made by an authenticated user
+ */
+export function getAuditContext(
+  request: NextRequest,
+  actor: SessionUser
+): AuditContext {
+  return { actor, ipAddress: getClientIp(request) };
+}
+
+/**
+ * Comparable string form of a field value
+ * Date of birth is a calendar date (YYYY-MM-DD); other dates are timestamps
+ */
+function toAuditValue(field: string, value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) {
+    return field === 'dateOfBirth'
+      ? value.toISOString().slice(0, 10)
+      : value.toISOString();
+  }
+  return String(value);
+}
+
+/**
+ * Field-level diff between two versions of an investor
+ * Pass null for `before` on create and for `after` on delete. Returns null
+ * when nothing changed.
+ */
+export function diffInvestorFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChanges | null {
+  const changes: AuditChanges = {};
+
+  for (const field of AUDITED_FIELDS) {
+    const from = toAuditValue(field, before?.[field]);
+    const to = toAuditValue(field, after?.[field]);
+
+    if (from === to) continue;
+
+    const seal = (value: string | null) =>
+      value !== null && ENCRYPTED_FIELDS.has(field)
+        ? encryptValue(value)
+        : value;
+
+    changes[field] = { from: seal(from), to: seal(to) };
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Append audit events
+ * Pass the transaction client when recording a change so both commit together
+ */
+export async function recordAuditEvents(
+  context: AuditContext,
+  events: AuditEventInput[],
+  client: AuditClient = db
+): Promise<void> {
+  if (events.length === 0) return;
+
+  await client.auditEvent.createMany({
+    data: events.map((event) => ({
+      actorId: context.actor.id,
+      actorEmail: context.actor.email,
+      actorRole: context.actor.role,
+      action: event.action,
+      investorId: event.investorId ?? null,
+      fileId: event.fileId ?? null,
+      changes: (event.changes ?? undefined) as
+        | Prisma.InputJsonObject
+        | undefined,
+      ipAddress: context.ipAddress,
+    })),
+  });
+}
+
+/**
+ * Append a single audit event
+ */
+export async function recordAuditEvent(
+  context: AuditContext,
+  event: AuditEventInput,
+  client: AuditClient = db
+): Promise<void> {
+  await recordAuditEvents(context, [event], client);
+}
+
+/**
+ * Decrypt the PII values in an event's diff for display to an auditor
+ */
+export function decryptAuditEvent(event: AuditEvent): AuditEvent {
+  if (
+    !event.changes ||
+    typeof event.changes !== 'object' ||
+    Array.isArray(event.changes)
+  ) {
+    return event;
+  }
+
+  const changes: AuditChanges = {};
+
+  for (const [field, change] of Object.entries(
+    event.changes as unknown as AuditChanges
+  )) {
+    changes[field] = {
+      from: change.from === null ? null : decryptIfEncrypted(change.from),
+      to: change.to === null ? null : decryptIfEncrypted(change.to),
+    };
+  }
+
+  return { ...event, changes: changes as unknown as Prisma.JsonObject };
+}
+
+/**
+ * Validate audit log query parameters
+ */
+export function parseAuditQueryParams(
+  searchParams: URLSearchParams
+): AuditQueryValidationResult {
+  const errors: ValidationError[] = [];
+  const params: AuditQueryParams = {
+    pageSize: SEARCH_VALIDATION.DEFAULT_PAGE_SIZE,
+  };
+
+  const investorId = searchParams.get('investorId');
+  if (investorId) {
+    if (isValidUuid(investorId)) {
+      params.investorId = investorId;
+    } else {
+      errors.push({
+        field: 'investorId',
+        code: 'INVESTOR_ID_INVALID',
+        message: ERROR_MESSAGES.INVESTOR_ID_INVALID,
+      });
+    }
+  }
+
+  const actorId = searchParams.get('actorId');
+  if (actorId) {
+    if (isValidUuid(actorId)) {
+      params.actorId = actorId;
+    } else {
+      errors.push({
+        field: 'actorId',
+        code: 'ACTOR_ID_INVALID',
+        message: ERROR_MESSAGES.ACTOR_ID_INVALID,
+      });
+    }
+  }
+
+  const action = searchParams.get('action');
+  if (action) {
+    if ((Object.values(AuditAction) as string[]).includes(action)) {
+      params.action = action as AuditAction;
+    } else {
+      errors.push({
+        field: 'action',
+        code: 'AUDIT_ACTION_INVALID',
+        message: ERROR_MESSAGES.AUDIT_ACTION_INVALID,
+      });
+    }
+  }
+
+  const pageSize = searchParams.get('pageSize');
+  if (pageSize) {
+    const parsed = /^\d+$/.test(pageSize) ? parseInt(pageSize, 10) : 0;
+
+    if (parsed < 1 || parsed > SEARCH_VALIDATION.MAX_PAGE_SIZE) {
+      errors.push({
+        field: 'pageSize',
+        code: 'SEARCH_PAGE_SIZE_INVALID',
+        message: ERROR_MESSAGES.SEARCH_PAGE_SIZE_INVALID,
+      });
+    } else {
+      params.pageSize = parsed;
+    }
+  }
+
+  const cursor = searchParams.get('cursor');
+  if (cursor) {
+    params.cursor = cursor;
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return { isValid: true, errors: [], data: params };
+}
@@ -0,0 +1,142 @@
+/**
+ * Authentication and role-based access control for API routes
+ *
+ * Roles:
+ *   applicant - may create and manage only their own investor record
+ *   reviewer  - may read every investor record and document
+ *   admin     - full access
+ *   auditor   - may query the audit log (lib/audit.ts), but not investor data
+ *
+ * proxy.ts rejects requests without a valid session up front; handlers call
+ * requireAuth() to load the current user (so role changes and deleted users
+ * take effect immediately) and then check record-level access.
+ */
+
+import type { NextRequest } from 'next/server';
+import type { UserRole } from '@prisma/client';
+import { db } from '@/lib/db';
+import { DatabaseError, DatabaseErrorCode } from '@/lib/db-utils';
+import { getRequestToken, verifySessionToken } from '@/lib/session';
+import type { ValidationError } from '@/lib/investor-validation';
+import { AUTH_VALIDATION, ERROR_MESSAGES } from '@/lib/validation-constants';
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  investorId: string | null;
+}
+
+export interface CredentialsValidationResult {
+  isValid: boolean;
+  errors: ValidationError[];
+  data?: { email: string; password: string };
+}
+
+/**
+ * Validate an email/password request body
+ * Emails are trimmed and lowercased so lookups are case-insensitive
+ */
+export function validateCredentials(
+  body: unknown
+): CredentialsValidationResult {
+  const errors: ValidationError[] = [];
+  const { email, password } = (
+    body && typeof body === 'object' ? body : {}
+  ) as Record<string, unknown>;
+
+  const normalizedEmail =
+    typeof email === 'string' ? email.trim().toLowerCase() : '';
+
+  if (
+    !AUTH_VALIDATION.EMAIL_REGEX.test(normalizedEmail) ||
+    normalizedEmail.length > AUTH_VALIDATION.EMAIL_MAX_LENGTH
+  ) {
+    errors.push({
+      field: 'email',
+      code: 'AUTH_EMAIL_INVALID',
+      message: ERROR_MESSAGES.AUTH_EMAIL_INVALID,
+    });
+  }
+
+  if (
+    typeof password !== 'string' ||
+    password.length < AUTH_VALIDATION.PASSWORD_MIN_LENGTH ||
+    password.length > AUTH_VALIDATION.PASSWORD_MAX_LENGTH
+  ) {
+    errors.push({
+      field: 'password',
+      code: 'AUTH_PASSWORD_LENGTH',
+      message: ERROR_MESSAGES.AUTH_PASSWORD_LENGTH,
+    });
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    data: { email: normalizedEmail, password: password as string },
+  };
+}
+
+/**
+ * Roles that may see every investor record
+ */
+export const STAFF_ROLES: UserRole[] = ['reviewer', 'admin'];
+
+/**
+ * Load the signed-in user, optionally requiring one of the given roles
+ * Throws a DatabaseError mapped to 401 or 403 by getHttpStatusForError()
+ */
+export async function requireAuth(
+  request: NextRequest,
+  roles?: UserRole[]
+): Promise<SessionUser> {
+  const token = getRequestToken(request);
+  const claims = token ? await verifySessionToken(token) : null;
+
+  const user = claims
+    ? await db.user.findUnique({
+        where: { id: claims.userId },
+        select: { id: true, email: true, role: true, investorId: true },
+      })
+    : null;
+
+  if (!user) {
+    throw new DatabaseError(ERROR_MESSAGES.AUTH_REQUIRED, 'UNAUTHENTICATED');
+  }
+
+  if (roles && !roles.includes(user.role)) {
+    throw new DatabaseError(ERROR_MESSAGES.AUTH_FORBIDDEN, 'FORBIDDEN');
+  }
+
+  return user;
+}
+
+/**
+ * Check that a user may act on an investor record
+ * Applicants may always act on their own record; other records look like
+ * they do not exist so ids cannot be probed. Staff need one of staffRoles.
+ */
+export function assertInvestorAccess(
+  user: SessionUser,
+  investorId: string,
+  staffRoles: UserRole[] = STAFF_ROLES
+): void {
+  if (user.role === 'applicant') {
+    if (user.investorId !== investorId) {
+      throw new DatabaseError(
+        'Investor not found.',
+        DatabaseErrorCode.RECORD_NOT_FOUND
+      );
+    }
+    return;
+  }
+
+  if (!staffRoles.includes(user.role)) {
+    throw new DatabaseError(ERROR_MESSAGES.AUTH_FORBIDDEN, 'FORBIDDEN');
+  }
+}
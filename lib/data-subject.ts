@@ -0,0 +1,355 @@
+/**
+ * Data subject requests (GDPR / CCPA)
+ *
+ * Export bundles everything held about an investor - the record, the linked
+ * account, every document and every audit event about or by them - into a
+ * ZIP with a JSON manifest.
+ *
+ * Erasure permanently deletes the record, its documents and the applicant's
+ * account, strips their personal data from audit events (see the
+ * redaction rule in the audit_events trigger) and leaves an
+ * erasure_tombstones row as proof that the erasure happened.
+ *
+ * Both operations include soft-deleted investors, since that data is still
+ * held until it is purged, and the duplicate records merged into the investor
+ * (lib/investor-duplicates.ts).
+ */
+
+import { Readable } from 'stream';
+import { ZipArchive } from 'archiver';
+import { Prisma, type AuditEvent, type ErasureTombstone } from '@prisma/client';
+import { db } from '@/lib/db';
+import { DatabaseError, DatabaseErrorCode } from '@/lib/db-utils';
+import {
+  decryptAuditEvent,
+  recordAuditEvent,
+  type AuditContext,
+} from '@/lib/audit';
+import { openStoredFile, type StoredFileRef } from '@/lib/file-download';
+import { getRegulatoryHoldUntil } from '@/lib/retention';
+import { INCLUDE_DELETED } from '@/lib/soft-delete';
+import { getStorage, type StorageBackend } from '@/lib/storage';
+import { ERROR_MESSAGES } from '@/lib/validation-constants';
+
+/**
+ * Stand-in for the actor email on audit events redacted by an erasure
+ * The audit_events trigger accepts no other replacement value
+ */
+export const ERASED_ACTOR_EMAIL = 'erased';
+
+interface SubjectRecord {
+  id: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  phoneNumber: string;
+  streetAddress: string;
+  state: string;
+  zipCode: string;
+  country: string;
+  status: string;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+export interface SubjectManifest {
+  exportedAt: string;
+  investor: SubjectRecord;
+  // Duplicate records that were merged into this investor
+  mergedRecords: SubjectRecord[];
+  account: {
+    email: string;
+    role: string;
+    createdAt: Date;
+  } | null;
+  documents: Array<{
+    id: string;
+    path: string;
+    fileOriginalName: string;
+    mimeType: string;
+    documentType: string;
+    issueDate: Date | null;
+    expiryDate: Date | null;
+    fileSize: number;
+    checksum: string | null;
+    createdAt: Date;
+  }>;
+  statusChanges: Array<{
+    fromStatus: string | null;
+    toStatus: string;
+    note: string | null;
+    createdAt: Date;
+  }>;
+  auditEvents: AuditEvent[];
+}
+
+export interface SubjectExport {
+  manifest: SubjectManifest;
+  files: Array<StoredFileRef & { path: string; createdAt: Date }>;
+}
+
+export interface ErasureOptions {
+  reference?: string;
+  overrideRegulatoryHold?: boolean;
+  storage?: StorageBackend;
+}
+
+export interface ErasureResult {
+  tombstone: ErasureTombstone;
+  // Storage keys that could not be deleted; files:reconcile will find them
+  filesFailed: string[];
+}
+
+/**
+ * Error returned when the investor does not exist
+ */
+function investorNotFound(): DatabaseError {
+  return new DatabaseError(
+    'Investor not found.',
+    DatabaseErrorCode.RECORD_NOT_FOUND
+  );
+}
+
+/**
+ * Personal data held in one investor row
+ */
+function toSubjectRecord(
+  investor: Omit<SubjectRecord, 'dateOfBirth'> & { dateOfBirth: Date }
+): SubjectRecord {
+  return {
+    id: investor.id,
+    firstName: investor.firstName,
+    lastName: investor.lastName,
+    dateOfBirth: investor.dateOfBirth.toISOString().slice(0, 10),
+    phoneNumber: investor.phoneNumber,
+    streetAddress: investor.streetAddress,
+    state: investor.state,
+    zipCode: investor.zipCode,
+    country: investor.country,
+    status: investor.status,
+    createdAt: investor.createdAt,
+    updatedAt: investor.updatedAt,
+    deletedAt: investor.deletedAt,
+  };
+}
+
+/**
+ * Archive entry name for a document; ids keep names unique
+ */
+function documentPath(fileId: string, originalName: string): string {
+  return `documents/${fileId}-${originalName.replace(/[\\/]/g, '_')}`;
+}
+
+/**
+ * Gather everything held about an investor, or null if there is no such record
+ */
+export async function collectSubjectData(
+  investorId: string
+): Promise<SubjectExport | null> {
+  const investor = await db.investor.findFirst({
+    where: { id: investorId, ...INCLUDE_DELETED },
+    include: {
+      files: { orderBy: { createdAt: 'asc' } },
+      statusChanges: { orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] },
+      user: { select: { id: true, email: true, role: true, createdAt: true } },
+      mergedFrom: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  if (!investor) {
+    return null;
+  }
+
+  const investorIds = [
+    investorId,
+    ...investor.mergedFrom.map((merged) => merged.id),
+  ];
+
+  const auditEvents = await db.auditEvent.findMany({
+    where: {
+      OR: [
+        { investorId: { in: investorIds } },
+        ...(investor.user ? [{ actorId: investor.user.id }] : []),
+      ],
+    },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+
+  const files = investor.files.map((file) => ({
+    ...file,
+    path: documentPath(file.id, file.fileOriginalName),
+  }));
+
+  return {
+    manifest: {
+      exportedAt: new Date().toISOString(),
+      investor: toSubjectRecord(investor),
+      mergedRecords: investor.mergedFrom.map(toSubjectRecord),
+      account: investor.user
+        ? {
+            email: investor.user.email,
+            role: investor.user.role,
+            createdAt: investor.user.createdAt,
+          }
+        : null,
+      documents: files.map((file) => ({
+        id: file.id,
+        path: file.path,
+        fileOriginalName: file.fileOriginalName,
+        mimeType: file.mimeType,
+        documentType: file.documentType,
+        issueDate: file.issueDate,
+        expiryDate: file.expiryDate,
+        fileSize: file.fileSize,
+        checksum: file.checksum,
+        createdAt: file.createdAt,
+      })),
+      statusChanges: investor.statusChanges.map((change) => ({
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus,
+        note: change.note,
+        createdAt: change.createdAt,
+      })),
+      auditEvents: auditEvents.map(decryptAuditEvent),
+    },
+    files,
+  };
+}
+
+/**
+ * Stream a ZIP of manifest.json plus the decrypted documents
+ */
+export async function createSubjectArchive(
+  subject: SubjectExport,
+  storage: StorageBackend = getStorage()
+): Promise<Readable> {
+  const archive = new ZipArchive({ zlib: { level: 9 } });
+  const opened: Readable[] = [];
+
+  try {
+    for (const file of subject.files) {
+      opened.push(await openStoredFile(file, undefined, storage));
+    }
+  } catch (error) {
+    opened.forEach((stream) => stream.destroy());
+    throw error;
+  }
+
+  archive.append(JSON.stringify(subject.manifest, null, 2), {
+    name: 'manifest.json',
+  });
+
+  subject.files.forEach((file, index) => {
+    archive.append(opened[index], { name: file.path, date: file.createdAt });
+  });
+
+  // Resolves only once the archive has been read, so it is not awaited here
+  archive.finalize().catch((error) => archive.destroy(error));
+
+  return archive;
+}
+
+/**
+ * Permanently erase an investor and leave a tombstone
+ * Throws CONFLICT while the record is under regulatory hold, unless
+ * overrideRegulatoryHold is set
+ */
+export async function eraseSubject(
+  investorId: string,
+  audit: AuditContext,
+  options: ErasureOptions = {}
+): Promise<ErasureResult> {
+  const storage = options.storage || getStorage();
+
+  const { tombstone, filePaths } = await db.$transaction(async (tx) => {
+    const investor = await tx.investor.findFirst({
+      where: { id: investorId, ...INCLUDE_DELETED },
+      select: {
+        createdAt: true,
+        files: { select: { filePath: true } },
+        user: { select: { id: true, role: true } },
+        mergedFrom: { select: { id: true } },
+      },
+    });
+
+    if (!investor) {
+      throw investorNotFound();
+    }
+
+    const holdUntil = getRegulatoryHoldUntil(investor.createdAt);
+
+    if (holdUntil > new Date() && !options.overrideRegulatoryHold) {
+      throw new DatabaseError(
+        ERROR_MESSAGES.ERASURE_REGULATORY_HOLD(holdUntil.toISOString()),
+        'CONFLICT'
+      );
+    }
+
+    const redactedAt = new Date();
+    const investorIds = [
+      investorId,
+      ...investor.mergedFrom.map((merged) => merged.id),
+    ];
+
+    // Keep who did what and when; drop the field values
+    await tx.auditEvent.updateMany({
+      where: { investorId: { in: investorIds } },
+      data: { changes: Prisma.DbNull, redactedAt },
+    });
+
+    if (investor.user) {
+      await tx.auditEvent.updateMany({
+        where: { actorId: investor.user.id },
+        data: {
+          actorEmail: ERASED_ACTOR_EMAIL,
+          ipAddress: null,
+          changes: Prisma.DbNull,
+          redactedAt,
+        },
+      });
+
+      if (investor.user.role === 'applicant') {
+        await tx.user.delete({ where: { id: investor.user.id } });
+      }
+    }
+
+    // Stored create responses name the investor
+    await tx.idempotencyKey.deleteMany({
+      where: { investorId: { in: investorIds } },
+    });
+
+    // Document rows are removed by the cascade on investor_files; merged
+    // duplicates hold the same person's data, so they go too
+    await tx.investor.deleteMany({ where: { id: { in: investorIds } } });
+
+    const tombstone = await tx.erasureTombstone.create({
+      data: {
+        investorId,
+        erasedById: audit.actor.id,
+        reference: options.reference ?? null,
+        filesErased: investor.files.length,
+      },
+    });
+
+    await recordAuditEvent(audit, { action: 'erase', investorId }, tx);
+
+    return {
+      tombstone,
+      filePaths: investor.files.map((file) => file.filePath),
+    };
+  });
+
+  const filesFailed: string[] = [];
+
+  for (const filePath of filePaths) {
+    try {
+      await storage.delete(filePath);
+    } catch (error) {
+      console.error(`Error erasing stored file ${filePath}:`, error);
+      filesFailed.push(filePath);
+    }
+  }
+
+  return { tombstone, filesFailed };
+}
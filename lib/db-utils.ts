@@ -1,5 +1,6 @@
 import { Prisma } from '@prisma/client';
-import { db } from './db';
+import { db, type TransactionClient } from './db';
+import { CheckConstraintError } from './pii-encryption';
 
 /**
  * Database error types for better error handling
@@ -34,6 +35,10 @@ export class DatabaseError extends Error {
  * Parse Prisma errors into user-friendly messages
  */
 export function parsePrismaError(error: unknown): DatabaseError {
+  if (error instanceof DatabaseError) {
+    return error;
+  }
+
   if (error instanceof Prisma.PrismaClientKnownRequestError) {
     switch (error.code) {
       case DatabaseErrorCode.UNIQUE_CONSTRAINT:
@@ -68,6 +73,12 @@ export function parsePrismaError(error: unknown): DatabaseError {
     }
   }
 
+  if (error instanceof CheckConstraintError) {
+    return new DatabaseError(error.message, 'CHECK_CONSTRAINT', {
+      constraint: error.constraint,
+    });
+  }
+
   if (error instanceof Prisma.PrismaClientValidationError) {
     return new DatabaseError(
       'Invalid data provided to the database.',
@@ -89,6 +100,32 @@ export function parsePrismaError(error: unknown): DatabaseError {
   return new DatabaseError('An unknown error occurred.', 'UNKNOWN_ERROR');
 }
 
+/**
+ * Map a database error to the HTTP status code an API route should return
+ */
+export function getHttpStatusForError(error: DatabaseError): number {
+  switch (error.code) {
+    case DatabaseErrorCode.RECORD_NOT_FOUND:
+      return 404;
+    case DatabaseErrorCode.UNIQUE_CONSTRAINT:
+    case DatabaseErrorCode.FOREIGN_KEY_CONSTRAINT:
+      return 409;
+    case 'VALIDATION_ERROR':
+    case 'CHECK_CONSTRAINT':
+      return 400;
+    case 'UNAUTHENTICATED':
+      return 401;
+    case 'FORBIDDEN':
+      return 403;
+    case 'CONFLICT':
+      return 409;
+    case 'UNPROCESSABLE':
+      return 422;
+    default:
+      return 500;
+  }
+}
+
 /**
  * Wrapper for database operations with error handling
  */
@@ -105,18 +142,41 @@ export async function withErrorHandling<T>(
 
 /**
  * Transaction wrapper with automatic rollback on error
+ * Prisma gives up on an interactive transaction after 5s unless a longer
+ * timeout is passed
  */
 export async function executeTransaction<T>(
-  callback: (tx: Prisma.TransactionClient) => Promise<T>
+  callback: (tx: TransactionClient) => Promise<T>,
+  options?: { maxWait?: number; timeout?: number }
 ): Promise<{ data?: T; error?: DatabaseError }> {
   try {
-    const data = await db.$transaction(callback);
+    const data = await db.$transaction(callback, options);
     return { data };
   } catch (error) {
     return { error: parsePrismaError(error) };
   }
 }
 
+/**
+ * Lock investor rows until the transaction ends
+ * Checks made on an investor's documents (count, size, required types) stay
+ * true while the lock is held, even with concurrent uploads, deletes or
+ * merges. Rows are locked in id order so two callers cannot deadlock.
+ */
+export async function lockInvestors(
+  tx: TransactionClient,
+  investorIds: string[]
+): Promise<void> {
+  const ids = [...new Set(investorIds)].sort();
+
+  await tx.$queryRaw`
+    SELECT id FROM investors
+    WHERE id = ANY(${ids}::uuid[])
+    ORDER BY id
+    FOR UPDATE
+  `;
+}
+
 /**
  * Get database statistics
  */
@@ -215,33 +275,6 @@ export async function batchInsert<T>(
   }
 }
 
-/**
- * Safely delete records older than specified days
- */
-export async function deleteOldRecords(
-  model: keyof typeof db,
-  days: number,
-  dateField: string = 'createdAt'
-): Promise<{ count: number; error?: DatabaseError }> {
-  try {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - days);
-
-    // @ts-expect-error - Dynamic model and field access
-    const result = await db[model].deleteMany({
-      where: {
-        [dateField]: {
-          lt: cutoffDate,
-        },
-      },
-    });
-
-    return { count: result.count };
-  } catch (error) {
-    return { count: 0, error: parsePrismaError(error) };
-  }
-}
-
 /**
  * Paginated query helper
  */
@@ -266,7 +299,8 @@ export async function paginate<T>(
   model: keyof typeof db,
   params: PaginationParams,
   where?: Record<string, unknown>,
-  orderBy?: Record<string, unknown>
+  orderBy?: Record<string, unknown> | Record<string, unknown>[],
+  omit?: Record<string, boolean>
 ): Promise<PaginatedResult<T>> {
   const { page, pageSize } = params;
   const skip = (page - 1) * pageSize;
@@ -276,6 +310,7 @@ export async function paginate<T>(
     db[model].findMany({
       where,
       orderBy,
+      omit,
       skip,
       take: pageSize,
     }),
@@ -297,3 +332,175 @@ export async function paginate<T>(
     },
   };
 }
+
+/**
+ * Cursor (keyset) pagination helpers
+ * Pages over (createdAt, id) so results stay stable while new rows are inserted
+ * and page cost does not grow with table size
+ */
+export interface CursorPaginationParams {
+  cursor?: string;
+  pageSize: number;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface CursorPaginatedResult<T> {
+  data: T[];
+  pagination: {
+    pageSize: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+interface CursorPayload {
+  createdAt: Date;
+  id: string;
+  direction: 'next' | 'prev';
+}
+
+interface KeysetRow {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Encode a row position into an opaque cursor token
+ */
+export function encodeCursor(
+  row: KeysetRow,
+  direction: CursorPayload['direction']
+): string {
+  return Buffer.from(
+    JSON.stringify([row.createdAt.toISOString(), row.id, direction])
+  ).toString('base64url');
+}
+
+/**
+ * Decode an opaque cursor token, returning null if it is malformed
+ */
+export function decodeCursor(cursor: string): CursorPayload | null {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8')
+    );
+
+    if (!Array.isArray(decoded) || decoded.length !== 3) return null;
+
+    const [createdAt, id, direction] = decoded;
+    const date = new Date(createdAt);
+
+    if (
+      typeof createdAt !== 'string' ||
+      isNaN(date.getTime()) ||
+      typeof id !== 'string' ||
+      (direction !== 'next' && direction !== 'prev')
+    ) {
+      return null;
+    }
+
+    return { createdAt: date, id, direction };
+  } catch {
+    return null;
+  }
+}
+
+export async function paginateByCursor<T extends KeysetRow>(
+  model: keyof typeof db,
+  params: CursorPaginationParams,
+  where?: Record<string, unknown>,
+  omit?: Record<string, boolean>
+): Promise<CursorPaginatedResult<T>> {
+  const { pageSize, sortOrder = 'desc' } = params;
+  const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+
+  if (params.cursor && !cursor) {
+    throw new DatabaseError('Invalid pagination cursor.', 'VALIDATION_ERROR');
+  }
+
+  const direction = cursor?.direction ?? 'next';
+
+  // Walking backwards reverses both the comparison and the scan order
+  const forward = direction === 'next';
+  const queryOrder = forward
+    ? sortOrder
+    : sortOrder === 'desc'
+      ? 'asc'
+      : 'desc';
+  const comparison = queryOrder === 'desc' ? 'lt' : 'gt';
+
+  const conditions: Record<string, unknown>[] = where ? [where] : [];
+
+  if (cursor) {
+    conditions.push({
+      OR: [
+        { createdAt: { [comparison]: cursor.createdAt } },
+        { createdAt: cursor.createdAt, id: { [comparison]: cursor.id } },
+      ],
+    });
+  }
+
+  // @ts-expect-error - Dynamic model access
+  const rows: T[] = await db[model].findMany({
+    where: conditions.length > 0 ? { AND: conditions } : undefined,
+    orderBy: [{ createdAt: queryOrder }, { id: queryOrder }],
+    omit,
+    take: pageSize + 1,
+  });
+
+  const hasMore = rows.length > pageSize;
+  const data = rows.slice(0, pageSize);
+
+  if (!forward) {
+    data.reverse();
+  }
+
+  const hasNext = forward ? hasMore : true;
+  const hasPrev = forward ? cursor !== null : hasMore;
+  const first = data[0];
+  const last = data[data.length - 1];
+
+  return {
+    data,
+    pagination: {
+      pageSize,
+      nextCursor: hasNext && last ? encodeCursor(last, 'next') : null,
+      prevCursor: hasPrev && first ? encodeCursor(first, 'prev') : null,
+      hasNext,
+      hasPrev,
+    },
+  };
+}
+
+/**
+ * Iterate over every matching row in keyset order, one batch at a time
+ * Intended for exports and background jobs that must walk large tables
+ */
+export async function* iterateByCursor<T extends KeysetRow>(
+  model: keyof typeof db,
+  batchSize: number,
+  where?: Record<string, unknown>,
+  sortOrder: 'asc' | 'desc' = 'asc'
+): AsyncGenerator<T[]> {
+  let cursor: string | undefined;
+
+  while (true) {
+    const page = await paginateByCursor<T>(
+      model,
+      { cursor, pageSize: batchSize, sortOrder },
+      where
+    );
+
+    if (page.data.length > 0) {
+      yield page.data;
+    }
+
+    if (!page.pagination.nextCursor) {
+      return;
+    }
+
+    cursor = page.pagination.nextCursor;
+  }
+}
@@ -1,6 +1,8 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { Pool } from 'pg';
 import { PrismaPg } from '@prisma/adapter-pg';
+import { piiEncryption } from '@/lib/pii-encryption';
+import { softDelete } from '@/lib/soft-delete';
 
 /**
  * Prisma Client Singleton for Next.js
@@ -56,7 +58,40 @@ if (process.env.NODE_ENV === 'production') {
   prisma = global.cachedPrisma;
 }
 
-export const db = prisma;
+/**
+ * Application client: investor PII is encrypted on write and decrypted on read
+ * (see lib/pii-encryption.ts), and soft-deleted investors are hidden
+ * (see lib/soft-delete.ts)
+ */
+export const db = prisma.$extends(piiEncryption).$extends(softDelete);
+
+/**
+ * Interactive transaction client for the extended db client
+ */
+export type TransactionClient = Parameters<
+  Parameters<typeof db.$transaction>[0]
+>[0];
+
+/**
+ * Investor columns never returned by the API
+ * phoneNumberHash is the blind index behind phone lookups
+ */
+export const INVESTOR_PUBLIC_OMIT = {
+  phoneNumberHash: true,
+} satisfies Prisma.InvestorOmit;
+
+/**
+ * Document columns never returned by the API: the storage key, the
+ * envelope-encryption material needed to decrypt it, and the checksum of the
+ * plaintext
+ */
+export const INVESTOR_FILE_PUBLIC_OMIT = {
+  filePath: true,
+  checksum: true,
+  encryptionKeyId: true,
+  wrappedDataKey: true,
+  encryptionIv: true,
+} satisfies Prisma.InvestorFileOmit;
 
 /**
  * Graceful shutdown handler for Prisma Client
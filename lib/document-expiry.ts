@@ -0,0 +1,154 @@
+/**
+ * Document expiry tracking
+ *
+ * Documents can carry the issue and expiry dates printed on them. The
+ * expiring documents report lists active investors with a document that has
+ * expired, or will within the warning window, so the team can ask them for a
+ * current one:
+ *   GET /api/investors/expiring-documents?withinDays=30
+ *   npm run documents:expiring -- --within-days=30   (run on a schedule)
+ * The window defaults to DOCUMENT_EXPIRY_WARNING_DAYS (30).
+ */
+
+import type { DocumentType, InvestorStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { ACTIVE_INVESTOR_FILE_WHERE } from '@/lib/soft-delete';
+import { DOCUMENT_DATE_VALIDATION } from '@/lib/validation-constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExpiringDocument {
+  fileId: string;
+  documentType: DocumentType;
+  fileOriginalName: string;
+  expiryDate: string; // YYYY-MM-DD
+  daysRemaining: number; // Negative once expired
+  expired: boolean;
+}
+
+export interface ExpiringInvestor {
+  investorId: string;
+  firstName: string;
+  lastName: string;
+  status: InvestorStatus;
+  documents: ExpiringDocument[];
+}
+
+export interface ExpiryReport {
+  generatedAt: string;
+  withinDays: number;
+  expiresOnOrBefore: string; // YYYY-MM-DD
+  summary: {
+    investors: number;
+    documents: number;
+    expired: number;
+  };
+  investors: ExpiringInvestor[];
+}
+
+export interface ExpiryReportOptions {
+  withinDays?: number;
+  now?: Date;
+}
+
+/**
+ * Default warning window from the environment
+ */
+export function getExpiryWarningDays(): number {
+  const value = process.env.DOCUMENT_EXPIRY_WARNING_DAYS;
+
+  if (value === undefined || value === '') {
+    return DOCUMENT_DATE_VALIDATION.DEFAULT_EXPIRY_WARNING_DAYS;
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(
+      'DOCUMENT_EXPIRY_WARNING_DAYS must be a non-negative integer'
+    );
+  }
+
+  return parseInt(value, 10);
+}
+
+/**
+ * Midnight UTC of the given instant; expiry dates are stored as plain dates
+ */
+function startOfUtcDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
+
+/**
+ * Build the expiring documents report, soonest expiry first
+ */
+export async function findExpiringDocuments(
+  options: ExpiryReportOptions = {}
+): Promise<ExpiryReport> {
+  const withinDays = options.withinDays ?? getExpiryWarningDays();
+  const now = options.now || new Date();
+  const today = startOfUtcDay(now);
+  const cutoff = new Date(today.getTime() + withinDays * DAY_MS);
+
+  const files = await db.investorFile.findMany({
+    where: {
+      expiryDate: { not: null, lte: cutoff },
+      ...ACTIVE_INVESTOR_FILE_WHERE,
+    },
+    select: {
+      id: true,
+      documentType: true,
+      fileOriginalName: true,
+      expiryDate: true,
+      investor: {
+        select: { id: true, firstName: true, lastName: true, status: true },
+      },
+    },
+    orderBy: [{ expiryDate: 'asc' }, { id: 'asc' }],
+  });
+
+  const investors = new Map<string, ExpiringInvestor>();
+
+  for (const file of files) {
+    const expiryDate = file.expiryDate!;
+    const daysRemaining = Math.round(
+      (expiryDate.getTime() - today.getTime()) / DAY_MS
+    );
+
+    let entry = investors.get(file.investor.id);
+
+    if (!entry) {
+      entry = {
+        investorId: file.investor.id,
+        firstName: file.investor.firstName,
+        lastName: file.investor.lastName,
+        status: file.investor.status,
+        documents: [],
+      };
+      investors.set(file.investor.id, entry);
+    }
+
+    entry.documents.push({
+      fileId: file.id,
+      documentType: file.documentType,
+      fileOriginalName: file.fileOriginalName,
+      expiryDate: expiryDate.toISOString().slice(0, 10),
+      daysRemaining,
+      expired: daysRemaining < 0,
+    });
+  }
+
+  return {
+    generatedAt: now.toISOString(),
+    withinDays,
+    expiresOnOrBefore: cutoff.toISOString().slice(0, 10),
+    summary: {
+      investors: investors.size,
+      documents: files.length,
+      expired: [...investors.values()]
+        .flatMap((investor) => investor.documents)
+        .filter((document) => document.expired).length,
+    },
+    investors: [...investors.values()],
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Document integrity utilities
+ * Verifies stored files against their SHA-256 checksums and finds identical
+ * documents shared between investors (a common fraud signal)
+ */
+
+import { createHash } from 'crypto';
+import { Transform } from 'stream';
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { ACTIVE_INVESTOR_FILE_WHERE } from '@/lib/soft-delete';
+
+export interface SharedDocumentGroup {
+  checksum: string;
+  investorCount: number;
+  files: Array<{
+    fileId: string;
+    fileOriginalName: string;
+    mimeType: string;
+    createdAt: Date;
+    investor: {
+      id: string;
+      firstName: string;
+      lastName: string;
+    };
+  }>;
+}
+
+export interface SharedDocumentOptions {
+  investorId?: string; // Only groups that include this investor
+  limit?: number;
+}
+
+/**
+ * Pass a file's plaintext through while hashing it
+ * The latest chunk is held back until the next one arrives, so a file that no
+ * longer matches its checksum fails before its last bytes are sent and the
+ * client never receives it complete
+ */
+export function createChecksumVerifier(expectedChecksum: string): Transform {
+  const hash = createHash('sha256');
+  let pending: Buffer | null = null;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      const previous = pending;
+      pending = chunk;
+      callback(null, previous ?? undefined);
+    },
+    flush(callback) {
+      if (hash.digest('hex') !== expectedChecksum) {
+        callback(new Error('File integrity check failed'));
+        return;
+      }
+
+      callback(null, pending ?? undefined);
+    },
+  });
+}
+
+/**
+ * List documents whose contents are identical across different investors
+ * Soft-deleted investors are left out
+ */
+export async function findSharedDocuments(
+  options: SharedDocumentOptions = {}
+): Promise<SharedDocumentGroup[]> {
+  const limit = options.limit ?? 50;
+  const investorFilter = options.investorId
+    ? Prisma.sql`AND checksum_sha256 IN (
+        SELECT checksum_sha256 FROM investor_files
+        WHERE investor_id = ${options.investorId}::uuid
+      )`
+    : Prisma.empty;
+
+  const groups = await db.$queryRaw<
+    Array<{ checksum: string; investor_count: number }>
+  >`
+    SELECT checksum_sha256 AS checksum,
+           COUNT(DISTINCT investor_id)::int AS investor_count
+    FROM investor_files
+    WHERE checksum_sha256 IS NOT NULL
+    AND investor_id IN (SELECT id FROM investors WHERE deleted_at IS NULL)
+    ${investorFilter}
+    GROUP BY checksum_sha256
+    HAVING COUNT(DISTINCT investor_id) > 1
+    ORDER BY investor_count DESC, checksum_sha256
+    LIMIT ${limit}
+  `;
+
+  if (groups.length === 0) {
+    return [];
+  }
+
+  const files = await db.investorFile.findMany({
+    where: {
+      checksum: { in: groups.map((group) => group.checksum) },
+      ...ACTIVE_INVESTOR_FILE_WHERE,
+    },
+    select: {
+      id: true,
+      checksum: true,
+      fileOriginalName: true,
+      mimeType: true,
+      createdAt: true,
+      investor: {
+        select: { id: true, firstName: true, lastName: true },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return groups.map((group) => ({
+    checksum: group.checksum,
+    investorCount: group.investor_count,
+    files: files
+      .filter((file) => file.checksum === group.checksum)
+      .map((file) => ({
+        fileId: file.id,
+        fileOriginalName: file.fileOriginalName,
+        mimeType: file.mimeType,
+        createdAt: file.createdAt,
+        investor: file.investor,
+      })),
+  }));
+}
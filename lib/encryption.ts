@@ -0,0 +1,267 @@
+/**
+ * Envelope encryption utilities
+ *
+ * Each value is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is wrapped with a locally configured key-encryption key. Rotating
+ * keys only requires re-wrapping data keys, not re-encrypting data.
+ *
+ * Configuration:
+ *   ENCRYPTION_KEYS=<keyId>:<base64 32-byte key>[,<keyId>:<key>...]
+ *   ENCRYPTION_ACTIVE_KEY_ID=<keyId used for new data>
+ *   BLIND_INDEX_KEY=<base64 32-byte key used for searchable hashes>
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  randomBytes,
+} from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const VALUE_PREFIX = 'v1';
+const KEY_ID_REGEX = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Unpadded base64url length of a byte count
+ */
+function base64UrlLength(bytes: number): number {
+  return Math.ceil((bytes * 4) / 3);
+}
+
+// v1.<keyId>.<wrapped data key>.<iv | ciphertext | tag>, where the wrapped
+// key has a fixed length and the sealed value holds at least an iv and tag
+const ENCRYPTED_VALUE_REGEX = new RegExp(
+  `^${VALUE_PREFIX}\\.[A-Za-z0-9_-]+` +
+    `\\.[A-Za-z0-9_-]{${base64UrlLength(IV_LENGTH + KEY_LENGTH + TAG_LENGTH)}}` +
+    `\\.[A-Za-z0-9_-]{${base64UrlLength(IV_LENGTH + TAG_LENGTH)},}$`
+);
+
+interface Keyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+/**
+ * A data key wrapped with a key-encryption key
+ */
+export interface WrappedDataKey {
+  keyId: string;
+  wrappedKey: string; // base64url(iv | encrypted key | tag)
+}
+
+let cachedKeyring: Keyring | undefined;
+let cachedBlindIndexKey: Buffer | undefined;
+
+/**
+ * Decode a base64 key and check its length
+ */
+function decodeKey(encoded: string, name: string): Buffer {
+  const key = Buffer.from(encoded, 'base64');
+
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`${name} must be a base64-encoded 32-byte key`);
+  }
+
+  return key;
+}
+
+/**
+ * Load key-encryption keys from the environment
+ */
+function getKeyring(): Keyring {
+  if (cachedKeyring) {
+    return cachedKeyring;
+  }
+
+  const keysConfig = process.env.ENCRYPTION_KEYS;
+  const activeKeyId = process.env.ENCRYPTION_ACTIVE_KEY_ID;
+
+  if (!keysConfig) {
+    throw new Error('ENCRYPTION_KEYS environment variable is not set');
+  }
+
+  if (!activeKeyId) {
+    throw new Error('ENCRYPTION_ACTIVE_KEY_ID environment variable is not set');
+  }
+
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of keysConfig.split(',')) {
+    const separator = entry.indexOf(':');
+    const keyId = entry.slice(0, separator).trim();
+
+    if (separator === -1 || !KEY_ID_REGEX.test(keyId)) {
+      throw new Error(
+        'ENCRYPTION_KEYS entries must look like <keyId>:<base64 key>'
+      );
+    }
+
+    keys.set(
+      keyId,
+      decodeKey(entry.slice(separator + 1).trim(), `Key "${keyId}"`)
+    );
+  }
+
+  if (!keys.has(activeKeyId)) {
+    throw new Error(
+      `Active encryption key "${activeKeyId}" is not in ENCRYPTION_KEYS`
+    );
+  }
+
+  cachedKeyring = { activeKeyId, keys };
+  return cachedKeyring;
+}
+
+/**
+ * Key id that new data is encrypted under
+ */
+export function getActiveKeyId(): string {
+  return getKeyring().activeKeyId;
+}
+
+/**
+ * AES-256-GCM encrypt, returning iv | ciphertext | tag
+ */
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]);
+}
+
+/**
+ * AES-256-GCM decrypt a buffer produced by seal()
+ */
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(sealed.length - TAG_LENGTH);
+  const ciphertext = sealed.subarray(IV_LENGTH, sealed.length - TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Generate a random data key
+ */
+export function generateDataKey(): Buffer {
+  return randomBytes(KEY_LENGTH);
+}
+
+/**
+ * Wrap a data key with the active key-encryption key
+ */
+export function wrapDataKey(dataKey: Buffer): WrappedDataKey {
+  const { activeKeyId, keys } = getKeyring();
+
+  return {
+    keyId: activeKeyId,
+    wrappedKey: seal(keys.get(activeKeyId)!, dataKey).toString('base64url'),
+  };
+}
+
+/**
+ * Unwrap a data key with the key-encryption key it was wrapped under
+ */
+export function unwrapDataKey(wrapped: WrappedDataKey): Buffer {
+  const key = getKeyring().keys.get(wrapped.keyId);
+
+  if (!key) {
+    throw new Error(`Unknown encryption key "${wrapped.keyId}"`);
+  }
+
+  return open(key, Buffer.from(wrapped.wrappedKey, 'base64url'));
+}
+
+/**
+ * Check whether a stored value was produced by encryptValue()
+ * The whole envelope must match, so plaintext that merely starts with "v1."
+ * (e.g. a street address) is not mistaken for ciphertext
+ */
+export function isEncryptedValue(value: string): boolean {
+  return ENCRYPTED_VALUE_REGEX.test(value);
+}
+
+/**
+ * Encrypt a string value
+ * Format: v1.<keyId>.<wrapped data key>.<iv | ciphertext | tag>
+ */
+export function encryptValue(plaintext: string): string {
+  const dataKey = generateDataKey();
+  const { keyId, wrappedKey } = wrapDataKey(dataKey);
+  const sealed = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+  return [VALUE_PREFIX, keyId, wrappedKey, sealed.toString('base64url')].join(
+    '.'
+  );
+}
+
+/**
+ * Split an encrypted value into its parts
+ */
+function parseEncryptedValue(value: string) {
+  if (!isEncryptedValue(value)) {
+    throw new Error('Malformed encrypted value');
+  }
+
+  const [, keyId, wrappedKey, sealed] = value.split('.');
+  return { keyId, wrappedKey, sealed };
+}
+
+/**
+ * Decrypt a value produced by encryptValue()
+ */
+export function decryptValue(value: string): string {
+  const { keyId, wrappedKey, sealed } = parseEncryptedValue(value);
+  const dataKey = unwrapDataKey({ keyId, wrappedKey });
+
+  return open(dataKey, Buffer.from(sealed, 'base64url')).toString('utf8');
+}
+
+/**
+ * Key id an encrypted value is currently wrapped under
+ */
+export function getValueKeyId(value: string): string {
+  return parseEncryptedValue(value).keyId;
+}
+
+/**
+ * Re-wrap a value's data key under the active key (key rotation)
+ * The ciphertext itself is unchanged
+ */
+export function rewrapValue(value: string): string {
+  const { keyId, wrappedKey, sealed } = parseEncryptedValue(value);
+
+  if (keyId === getActiveKeyId()) {
+    return value;
+  }
+
+  const rewrapped = wrapDataKey(unwrapDataKey({ keyId, wrappedKey }));
+
+  return [VALUE_PREFIX, rewrapped.keyId, rewrapped.wrappedKey, sealed].join(
+    '.'
+  );
+}
+
+/**
+ * Deterministic keyed hash for equality lookups on encrypted columns
+ */
+export function blindIndex(value: string): string {
+  if (!cachedBlindIndexKey) {
+    const encoded = process.env.BLIND_INDEX_KEY;
+
+    if (!encoded) {
+      throw new Error('BLIND_INDEX_KEY environment variable is not set');
+    }
+
+    cachedBlindIndexKey = decodeKey(encoded, 'BLIND_INDEX_KEY');
+  }
+
+  return createHmac('sha256', cachedBlindIndexKey).update(value).digest('hex');
+}
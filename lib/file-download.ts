@@ -0,0 +1,149 @@
+/**
+ * File download utilities for serving stored investor documents
+ */
+
+import { Readable } from 'stream';
+import {
+  getStorage,
+  StorageError,
+  type ByteRange,
+  type StorageBackend,
+} from '@/lib/storage';
+import {
+  alignRangeToBlocks,
+  createDecryptionStream,
+  isFileEncrypted,
+  type FileEncryptionFields,
+} from '@/lib/file-encryption';
+import { createChecksumVerifier } from '@/lib/document-integrity';
+
+export type { ByteRange } from '@/lib/storage';
+
+/**
+ * The parts of an InvestorFile row needed to read it back from storage
+ */
+export interface StoredFileRef extends FileEncryptionFields {
+  filePath: string;
+}
+
+/**
+ * Look up the size of a stored file
+ * Returns null if the key is invalid or the object does not exist, so callers
+ * can answer with a 404 without revealing why
+ */
+export async function getDownloadSize(
+  storageKey: string,
+  storage: StorageBackend = getStorage()
+): Promise<number | null> {
+  try {
+    const objectStat = await storage.stat(storageKey);
+    return objectStat ? objectStat.size : null;
+  } catch (error) {
+    if (error instanceof StorageError) {
+      console.error(`Blocked download of invalid storage key: ${storageKey}`);
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse a single-range HTTP Range header (RFC 9110)
+ * Returns null when the header is absent, malformed or requests multiple ranges
+ * (the full file should be served), or 'unsatisfiable' when the range lies
+ * outside the file
+ */
+export function parseRangeHeader(
+  header: string | null,
+  size: number
+): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+
+  const [, startText, endText] = match;
+
+  if (!startText && !endText) return null;
+
+  // Suffix range: last N bytes
+  if (!startText) {
+    const suffixLength = parseInt(endText, 10);
+    if (suffixLength === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - suffixLength), end: size - 1 };
+  }
+
+  const start = parseInt(startText, 10);
+  const end = endText ? Math.min(parseInt(endText, 10), size - 1) : size - 1;
+
+  if (start >= size || start > end) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+}
+
+/**
+ * Build a Content-Disposition header that survives non-ASCII filenames
+ */
+export function buildContentDisposition(
+  filename: string,
+  disposition: 'attachment' | 'inline' = 'attachment'
+): string {
+  const asciiFallback = filename
+    .replace(/[^\x20-\x7e]/g, '_')
+    .replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+  return `${disposition}; filename="${asciiFallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Open a stored file as a plaintext Node.js stream, decrypting if needed
+ * Ranges refer to plaintext bytes; encrypted files have the same size as their
+ * plaintext, so sizes from getDownloadSize() apply to both
+ */
+export async function openStoredFile(
+  file: StoredFileRef,
+  range?: ByteRange,
+  storage: StorageBackend = getStorage()
+): Promise<Readable> {
+  if (!isFileEncrypted(file)) {
+    return storage.getStream(file.filePath, range);
+  }
+
+  // Decryption has to start on a cipher block boundary
+  const ciphertext = await storage.getStream(
+    file.filePath,
+    range ? alignRangeToBlocks(range) : undefined
+  );
+  const plaintext = createDecryptionStream(file, range?.start ?? 0);
+  ciphertext.on('error', (error) => plaintext.destroy(error));
+
+  return ciphertext.pipe(plaintext);
+}
+
+/**
+ * Open a stored file as a Web ReadableStream, optionally limited to a byte range
+ * A whole file with a recorded checksum is verified as it streams, so what is
+ * checked is exactly what is sent; byte ranges cannot be checked
+ */
+export async function createDownloadStream(
+  file: StoredFileRef & { checksum?: string | null },
+  range?: ByteRange,
+  storage: StorageBackend = getStorage()
+): Promise<ReadableStream> {
+  const nodeStream = await openStoredFile(file, range, storage);
+
+  if (range || !file.checksum) {
+    return Readable.toWeb(nodeStream) as ReadableStream;
+  }
+
+  const verified = createChecksumVerifier(file.checksum);
+  nodeStream.on('error', (error) => verified.destroy(error));
+
+  return Readable.toWeb(nodeStream.pipe(verified)) as ReadableStream;
+}
@@ -0,0 +1,213 @@
+/**
+ * Reconciliation between stored files and investor_files rows
+ * Finds files without rows (orphaned files) and rows without files (missing
+ * files), and optionally quarantines or deletes the orphans
+ */
+
+import { db } from '@/lib/db';
+import { iterateByCursor } from '@/lib/db-utils';
+import { getStorage, type StorageBackend } from '@/lib/storage';
+import { STAGING_PREFIX } from '@/lib/file-upload';
+
+/**
+ * Prefix orphaned files are moved under when quarantined
+ */
+export const QUARANTINE_PREFIX = 'quarantine/';
+
+export type ReconciliationAction = 'report' | 'quarantine' | 'delete';
+
+export interface ReconciliationOptions {
+  action: ReconciliationAction;
+  dryRun: boolean;
+  // Files modified more recently than this may belong to an in-flight upload
+  gracePeriodMinutes?: number;
+  batchSize?: number;
+  storage?: StorageBackend;
+}
+
+export interface ReconciliationActionResult {
+  type: 'quarantine-file' | 'delete-file' | 'delete-row';
+  target: string;
+  status: 'done' | 'planned' | 'failed';
+  destination?: string;
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  startedAt: string;
+  finishedAt: string;
+  action: ReconciliationAction;
+  dryRun: boolean;
+  summary: {
+    rowsScanned: number;
+    filesScanned: number;
+    orphanedFiles: number;
+    missingFiles: number;
+    actionsFailed: number;
+  };
+  orphanedFiles: Array<{ key: string; size: number; lastModified: string }>;
+  missingFiles: Array<{ fileId: string; investorId: string; filePath: string }>;
+  actions: ReconciliationActionResult[];
+}
+
+interface FileRow {
+  id: string;
+  investorId: string;
+  filePath: string;
+  createdAt: Date;
+}
+
+/**
+ * Walk storage and the investor_files table and reconcile the two
+ */
+export async function reconcileFiles(
+  options: ReconciliationOptions
+): Promise<ReconciliationReport> {
+  const storage = options.storage || getStorage();
+  const gracePeriodMs = (options.gracePeriodMinutes ?? 60) * 60 * 1000;
+  const batchSize = options.batchSize ?? 500;
+  const startedAt = new Date();
+  const graceCutoff = new Date(startedAt.getTime() - gracePeriodMs);
+
+  // 1. Database first, so rows committed during the storage walk cannot be
+  //    reported as missing (their files are moved into place before commit)
+  const rowsByKey = new Map<string, FileRow>();
+
+  for await (const batch of iterateByCursor<FileRow>(
+    'investorFile',
+    batchSize
+  )) {
+    for (const row of batch) {
+      rowsByKey.set(row.filePath, row);
+    }
+  }
+
+  // 2. Storage, skipping quarantined files and anything inside the grace period
+  const storedKeys = new Set<string>();
+  const orphanedFiles: ReconciliationReport['orphanedFiles'] = [];
+  let filesScanned = 0;
+
+  for await (const object of storage.list()) {
+    if (object.key.startsWith(QUARANTINE_PREFIX)) continue;
+
+    filesScanned++;
+    storedKeys.add(object.key);
+
+    const isOrphan =
+      object.key.startsWith(STAGING_PREFIX) || !rowsByKey.has(object.key);
+
+    if (isOrphan && object.lastModified < graceCutoff) {
+      orphanedFiles.push({
+        key: object.key,
+        size: object.size,
+        lastModified: object.lastModified.toISOString(),
+      });
+    }
+  }
+
+  // 3. Rows whose file is gone; re-check in case it was written mid-walk
+  const missingFiles: ReconciliationReport['missingFiles'] = [];
+
+  for (const [key, row] of rowsByKey) {
+    if (storedKeys.has(key) || (await storage.exists(key))) continue;
+
+    missingFiles.push({
+      fileId: row.id,
+      investorId: row.investorId,
+      filePath: row.filePath,
+    });
+  }
+
+  const actions = await applyActions(
+    options,
+    storage,
+    startedAt,
+    orphanedFiles,
+    missingFiles
+  );
+
+  return {
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    action: options.action,
+    dryRun: options.dryRun,
+    summary: {
+      rowsScanned: rowsByKey.size,
+      filesScanned,
+      orphanedFiles: orphanedFiles.length,
+      missingFiles: missingFiles.length,
+      actionsFailed: actions.filter((action) => action.status === 'failed')
+        .length,
+    },
+    orphanedFiles,
+    missingFiles,
+    actions,
+  };
+}
+
+/**
+ * Quarantine or delete orphans; in dry-run mode actions are only planned
+ */
+async function applyActions(
+  options: ReconciliationOptions,
+  storage: StorageBackend,
+  startedAt: Date,
+  orphanedFiles: ReconciliationReport['orphanedFiles'],
+  missingFiles: ReconciliationReport['missingFiles']
+): Promise<ReconciliationActionResult[]> {
+  const actions: ReconciliationActionResult[] = [];
+
+  if (options.action === 'report') {
+    return actions;
+  }
+
+  const runAction = async (
+    action: Omit<ReconciliationActionResult, 'status'>,
+    operation: () => Promise<unknown>
+  ) => {
+    if (options.dryRun) {
+      actions.push({ ...action, status: 'planned' });
+      return;
+    }
+
+    try {
+      await operation();
+      actions.push({ ...action, status: 'done' });
+    } catch (error) {
+      actions.push({
+        ...action,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const quarantineFolder = `${QUARANTINE_PREFIX}${startedAt
+    .toISOString()
+    .replace(/[:.]/g, '-')}/`;
+
+  for (const file of orphanedFiles) {
+    if (options.action === 'quarantine') {
+      const destination = `${quarantineFolder}${file.key}`;
+      await runAction(
+        { type: 'quarantine-file', target: file.key, destination },
+        () => storage.move(file.key, destination)
+      );
+    } else {
+      await runAction({ type: 'delete-file', target: file.key }, () =>
+        storage.delete(file.key)
+      );
+    }
+  }
+
+  // Rows cannot be quarantined; they are only removed in delete mode
+  if (options.action === 'delete') {
+    for (const row of missingFiles) {
+      await runAction({ type: 'delete-row', target: row.fileId }, () =>
+        db.investorFile.deleteMany({ where: { id: row.fileId } })
+      );
+    }
+  }
+
+  return actions;
+}
@@ -0,0 +1,81 @@
+/**
+ * File type detection from leading bytes (magic numbers)
+ * Isomorphic: used by the browser form and by the API routes, so the declared
+ * File.type is never trusted on its own
+ */
+
+/**
+ * Known signatures for the document formats we accept
+ */
+const FILE_SIGNATURES = [
+  {
+    mimeType: 'application/pdf',
+    bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], // %PDF-
+  },
+  {
+    mimeType: 'image/jpeg',
+    bytes: [0xff, 0xd8, 0xff],
+  },
+  {
+    mimeType: 'image/png',
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+] as const;
+
+export type DetectedMimeType = (typeof FILE_SIGNATURES)[number]['mimeType'];
+
+/**
+ * Number of leading bytes needed to recognize every supported signature
+ */
+export const SNIFF_LENGTH = Math.max(
+  ...FILE_SIGNATURES.map((signature) => signature.bytes.length)
+);
+
+/**
+ * Aliases browsers report for the same format
+ */
+const MIME_TYPE_ALIASES: Record<string, DetectedMimeType> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+};
+
+/**
+ * Detect the real format from a file's leading bytes
+ */
+export function detectMimeType(bytes: Uint8Array): DetectedMimeType | null {
+  const match = FILE_SIGNATURES.find(
+    (signature) =>
+      bytes.length >= signature.bytes.length &&
+      signature.bytes.every((byte, index) => bytes[index] === byte)
+  );
+
+  return match ? match.mimeType : null;
+}
+
+/**
+ * Read the leading bytes of a File/Blob and detect its format
+ */
+export async function sniffMimeType(
+  file: Blob
+): Promise<DetectedMimeType | null> {
+  const buffer = await file.slice(0, SNIFF_LENGTH).arrayBuffer();
+  return detectMimeType(new Uint8Array(buffer));
+}
+
+/**
+ * Normalize a declared MIME type to its canonical form
+ */
+export function normalizeMimeType(mimeType: string): string {
+  const lower = mimeType.trim().toLowerCase();
+  return MIME_TYPE_ALIASES[lower] ?? lower;
+}
+
+/**
+ * Check whether a declared MIME type agrees with the detected one
+ */
+export function mimeTypesMatch(
+  declared: string,
+  detected: DetectedMimeType
+): boolean {
+  return normalizeMimeType(declared) === detected;
+}
@@ -2,21 +2,31 @@
  * File upload utilities for handling investor file uploads
  */
 
-import { mkdir } from 'fs/promises';
-import { createWriteStream } from 'fs';
-import { pipeline } from 'stream/promises';
-import { Readable } from 'stream';
-import { join } from 'path';
-
-export interface FileUploadResult {
-  filePath: string;
+import { createHash } from 'crypto';
+import { Readable, Transform } from 'stream';
+import type { TransactionClient } from '@/lib/db';
+import { getStorage, type StorageBackend } from '@/lib/storage';
+import {
+  createEncryptionStream,
+  type FileEncryptionMetadata,
+} from '@/lib/file-encryption';
+import {
+  executeTransaction,
+  parsePrismaError,
+  type DatabaseError,
+} from '@/lib/db-utils';
+import { FILE_VALIDATION } from '@/lib/validation-constants';
+
+export interface FileUploadResult extends FileEncryptionMetadata {
+  filePath: string; // Storage key, resolved by the configured StorageBackend
   fileOriginalName: string;
   fileSize: number;
   mimeType: string;
+  checksum: string; // SHA-256 of the plaintext contents, hex encoded
 }
 
 export interface UploadConfig {
-  uploadDir?: string;
+  storage?: StorageBackend;
   maxPathLength?: number;
 }
 
@@ -53,7 +63,7 @@ function sanitizeFilename(filename: string): string {
 /**
  * Generate unique filename with timestamp and random suffix
  */
-function generateUniqueFilename(originalFilename: string): string {
+export function generateUniqueFilename(originalFilename: string): string {
   const timestamp = Date.now();
   const randomSuffix = Math.random().toString(36).substring(2, 8);
   const sanitizedFilename = sanitizeFilename(originalFilename);
@@ -61,42 +71,126 @@ function generateUniqueFilename(originalFilename: string): string {
 }
 
 /**
- * Ensure upload directory exists
+ * Save a single file to storage using streaming
+ * Uses streaming instead of loading entire file into memory for better performance
+ * and to avoid memory issues with large files or concurrent uploads (critical for serverless)
+ * The file passes through the cipher on the way to storage; the SHA-256
+ * checksum of the plaintext is computed on the fly and returned as hex
  */
-export async function ensureUploadDirectory(
-  uploadDir: string
+async function saveFileToStorage(
+  file: File,
+  storage: StorageBackend,
+  key: string,
+  cipher: Transform
 ): Promise<string> {
-  const uploadPath = join(process.cwd(), uploadDir);
+  // Convert Web ReadableStream to Node.js Readable stream
+  const webStream = file.stream();
+  const nodeStream = webStreamToNodeStream(webStream);
 
-  try {
-    await mkdir(uploadPath, { recursive: true });
-  } catch (error) {
-    console.error('Failed to create upload directory:', error);
-    throw new Error('Failed to create upload directory');
-  }
+  // Hash each chunk as it passes through to storage
+  const hash = createHash('sha256');
+  const hashingStream = new Transform({
+    transform(chunk, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+  nodeStream.on('error', (error) => hashingStream.destroy(error));
 
-  return uploadPath;
+  hashingStream.on('error', (error) => cipher.destroy(error));
+
+  // Stored bytes are ciphertext; the real type lives on the database row
+  await storage.put(key, nodeStream.pipe(hashingStream).pipe(cipher), {
+    contentType: 'application/octet-stream',
+  });
+
+  return hash.digest('hex');
 }
 
 /**
- * Save a single file to disk using streaming
- * Uses streaming instead of loading entire file into memory for better performance
- * and to avoid memory issues with large files or concurrent uploads (critical for serverless)
+ * Prefix for files written before their database rows are committed
  */
-async function saveFileToDisk(
-  file: File,
-  uploadPath: string,
-  filename: string
-): Promise<void> {
-  const filePath = join(uploadPath, filename);
+export const STAGING_PREFIX = 'staging/';
 
-  // Convert Web ReadableStream to Node.js Readable stream
-  const webStream = file.stream();
-  const nodeStream = webStreamToNodeStream(webStream);
-  const writeStream = createWriteStream(filePath);
+/**
+ * Time limits for the transaction that writes rows and moves staged files
+ * On S3 each move is a copy plus a delete, so the budget grows per file;
+ * ten files stay inside the investor route's 60s maxDuration
+ */
+const UPLOAD_TRANSACTION = {
+  MAX_WAIT_MS: 5000,
+  BASE_TIMEOUT_MS: 10000,
+  PER_FILE_TIMEOUT_MS: 4000,
+} as const;
+
+interface WrittenFile {
+  writeKey: string; // Where the bytes were written
+  fileData: FileUploadResult; // filePath is the final storage key
+}
+
+/**
+ * Write files to storage, optionally under the staging prefix
+ * If any file fails, files already written by this call are removed
+ */
+async function writeFiles(
+  files: File[],
+  storage: StorageBackend,
+  maxPathLength: number,
+  staged: boolean
+): Promise<WrittenFile[]> {
+  const written: WrittenFile[] = [];
+
+  try {
+    for (const file of files) {
+      const storageKey = generateUniqueFilename(file.name);
 
-  // Stream file directly to disk with automatic cleanup
-  await pipeline(nodeStream, writeStream);
+      // Validate storage key length (database limit)
+      if (storageKey.length > maxPathLength) {
+        throw new Error(
+          `File name "${file.name}" results in a path that is too long. Please use a shorter filename.`
+        );
+      }
+
+      const writeKey = staged ? `${STAGING_PREFIX}${storageKey}` : storageKey;
+
+      // Each file gets its own data key
+      const encryption = createEncryptionStream();
+
+      // Track before writing so a partially written file is cleaned up too
+      const entry: WrittenFile = {
+        writeKey,
+        fileData: {
+          filePath: storageKey,
+          fileOriginalName: file.name,
+          fileSize: file.size,
+          mimeType: file.type,
+          checksum: '',
+          ...encryption.metadata,
+        },
+      };
+      written.push(entry);
+
+      entry.fileData.checksum = await saveFileToStorage(
+        file,
+        storage,
+        writeKey,
+        encryption.stream
+      );
+    }
+  } catch (error) {
+    await deleteFiles(
+      written.map((file) => file.writeKey),
+      storage
+    ).catch((cleanupError) => {
+      console.error(
+        'Failed to clean up partially uploaded files:',
+        cleanupError
+      );
+    });
+    throw error;
+  }
+
+  return written;
 }
 
 /**
@@ -106,39 +200,82 @@ export async function uploadFiles(
   files: File[],
   config: UploadConfig = {}
 ): Promise<FileUploadResult[]> {
-  const uploadDir = config.uploadDir || process.env.UPLOAD_DIR || './uploads';
-  const maxPathLength = config.maxPathLength || 500;
+  const storage = config.storage || getStorage();
+  const maxPathLength = config.maxPathLength || FILE_VALIDATION.MAX_PATH_LENGTH;
 
-  // Ensure upload directory exists
-  const uploadPath = await ensureUploadDirectory(uploadDir);
+  const written = await writeFiles(files, storage, maxPathLength, false);
+
+  return written.map((file) => file.fileData);
+}
+
+/**
+ * Upload files and write their database rows as one all-or-nothing operation
+ *
+ * Files are staged first, the callback writes rows inside executeTransaction(),
+ * and staged files are moved to their final keys before the transaction
+ * commits. On any failure the staged and moved files are removed, so no
+ * orphaned files are left behind.
+ */
+export async function uploadFilesInTransaction<T>(
+  files: File[],
+  callback: (
+    fileDataArray: FileUploadResult[],
+    tx: TransactionClient
+  ) => Promise<T>,
+  config: UploadConfig = {}
+): Promise<{ data?: T; error?: DatabaseError }> {
+  const storage = config.storage || getStorage();
+  const maxPathLength = config.maxPathLength || FILE_VALIDATION.MAX_PATH_LENGTH;
 
-  // Process each file
-  const fileDataArray: FileUploadResult[] = [];
+  let staged: WrittenFile[];
 
-  for (const file of files) {
-    const uniqueFilename = generateUniqueFilename(file.name);
-    const dbFilePath = `${uploadDir}/${uniqueFilename}`;
+  try {
+    staged = await writeFiles(files, storage, maxPathLength, true);
+  } catch (error) {
+    return { error: parsePrismaError(error) };
+  }
 
-    // Validate file path length (database limit)
-    if (dbFilePath.length > maxPathLength) {
-      throw new Error(
-        `File name "${file.name}" results in a path that is too long. Please use a shorter filename.`
+  const result = await executeTransaction(
+    async (tx) => {
+      const data = await callback(
+        staged.map((file) => file.fileData),
+        tx
       );
-    }
 
-    // Save file to disk
-    await saveFileToDisk(file, uploadPath, uniqueFilename);
+      // Commit files last so a failed move also rolls back the rows
+      for (const file of staged) {
+        await storage.move(file.writeKey, file.fileData.filePath);
+      }
+
+      return data;
+    },
+    {
+      maxWait: UPLOAD_TRANSACTION.MAX_WAIT_MS,
+      timeout:
+        UPLOAD_TRANSACTION.BASE_TIMEOUT_MS +
+        staged.length * UPLOAD_TRANSACTION.PER_FILE_TIMEOUT_MS,
+    }
+  );
 
-    // Collect file metadata
-    fileDataArray.push({
-      filePath: dbFilePath,
-      fileOriginalName: file.name,
-      fileSize: file.size,
-      mimeType: file.type,
+  if (result.error) {
+    await deleteFiles(
+      staged.flatMap((file) => [file.writeKey, file.fileData.filePath]),
+      storage
+    ).catch((cleanupError) => {
+      console.error('Failed to clean up staged files:', cleanupError);
     });
   }
 
-  return fileDataArray;
+  return result;
 }
 
-
+/**
+ * Delete previously uploaded files from storage
+ * Files that are already gone are ignored so cleanup can be retried safely
+ */
+export async function deleteFiles(
+  storageKeys: string[],
+  storage: StorageBackend = getStorage()
+): Promise<void> {
+  await Promise.all(storageKeys.map((key) => storage.delete(key)));
+}
@@ -1,144 +1,111 @@
 /**
  * Front-end form validation schemas and utilities
  * Uses Zod for runtime validation with React Hook Form
+ * Investor rules come from the shared schema in lib/investor-schema.ts, the
+ * same one the API validates with
  */
 
 import { z } from 'zod';
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
 import {
   US_STATES,
-  FILE_VALIDATION,
-  FIELD_LENGTHS,
-  AGE_CONSTRAINTS,
-  PHONE_VALIDATION,
-  ZIP_VALIDATION,
-  calculateAge,
-  isValidZipRange,
+  AUTH_VALIDATION,
+  ERROR_MESSAGES,
+  type FieldErrors,
 } from '@/lib/validation-constants';
+import {
+  documentsSchema,
+  investorFieldsSchema,
+  investorSchema as sharedInvestorSchema,
+} from '@/lib/investor-schema';
+import { mimeTypesMatch, sniffMimeType } from '@/lib/file-type';
 
 export { US_STATES };
 
 /**
- * First name validation schema
+ * Complete investor form validation schema
+ * The shared schema, plus a check of each file's leading bytes; the API
+ * checks those separately so it can store the detected type
  */
-const firstNameSchema = z
-  .string()
-  .min(FIELD_LENGTHS.FIRST_NAME_MIN, 'First name is required')
-  .max(FIELD_LENGTHS.FIRST_NAME_MAX, 'First name must be 100 characters or less');
+export const investorSchema = sharedInvestorSchema.safeExtend({
+  documents: documentsSchema().refine(
+    async (documents) => {
+      for (const { file } of documents) {
+        const detected = await sniffMimeType(file);
+        if (!detected || !mimeTypesMatch(file.type, detected)) return false;
+      }
+      return true;
+    },
+    { message: ERROR_MESSAGES.FILE_CONTENTS_INVALID }
+  ),
+});
 
 /**
- * Last name validation schema
+ * Type inference from schema
  */
-const lastNameSchema = z
-  .string()
-  .min(FIELD_LENGTHS.LAST_NAME_MIN, 'Last name is required')
-  .max(FIELD_LENGTHS.LAST_NAME_MAX, 'Last name must be 100 characters or less');
+export type InvestorFormData = z.infer<typeof investorSchema>;
 
 /**
- * Date of birth validation schema
- * Must result in age between 18 and 120 years
+ * Investor edit schema used by the admin dashboard
+ * Documents are managed separately, so they are not part of an edit
  */
-const dateOfBirthSchema = z
-  .string()
-  .min(1, 'Date of birth is required')
-  .refine((date) => {
-    const age = calculateAge(date);
-    return age >= AGE_CONSTRAINTS.MIN && age <= AGE_CONSTRAINTS.MAX;
-  }, 'Must be between 18 and 120 years old');
+export const investorUpdateSchema = investorFieldsSchema;
 
-/**
- * Phone number validation schema
- * Accepts US/Canada formats: 1-951-526-3834 or (951) 526-3834
- */
-const phoneNumberSchema = z
-  .string()
-  .min(1, 'Phone number is required')
-  .regex(
-    PHONE_VALIDATION.REGEX,
-    `Invalid phone number. Format: ${PHONE_VALIDATION.FORMAT_EXAMPLE}`
-  );
+export type InvestorUpdateFormData = z.infer<typeof investorUpdateSchema>;
 
 /**
- * Street address validation schema
+ * Sign-in / registration form validation schema
  */
-const streetAddressSchema = z
-  .string()
-  .min(FIELD_LENGTHS.STREET_ADDRESS_MIN, 'Street address is required')
-  .max(FIELD_LENGTHS.STREET_ADDRESS_MAX, 'Street address must be 255 characters or less');
+export const credentialsSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .max(AUTH_VALIDATION.EMAIL_MAX_LENGTH, ERROR_MESSAGES.AUTH_EMAIL_INVALID)
+    .regex(AUTH_VALIDATION.EMAIL_REGEX, ERROR_MESSAGES.AUTH_EMAIL_INVALID),
+  password: z
+    .string()
+    .min(
+      AUTH_VALIDATION.PASSWORD_MIN_LENGTH,
+      ERROR_MESSAGES.AUTH_PASSWORD_LENGTH
+    )
+    .max(
+      AUTH_VALIDATION.PASSWORD_MAX_LENGTH,
+      ERROR_MESSAGES.AUTH_PASSWORD_LENGTH
+    ),
+});
 
-/**
- * State validation schema
- * Must be 2-letter US state code
- */
-const stateSchema = z.string().length(FIELD_LENGTHS.STATE_LENGTH, 'Please select a state');
+export type CredentialsFormData = z.infer<typeof credentialsSchema>;
 
 /**
- * ZIP code validation schema
- * Must be valid US ZIP code in 5 or 9 digit format
- * Range: 00501-99950
+ * Show the field errors of a 400 API response on the matching form fields
+ * fieldMap maps API field names to form fields. Returns the messages for
+ * fields the form does not have.
  */
-const zipCodeSchema = z
-  .string()
-  .min(1, 'ZIP code is required')
-  .regex(
-    ZIP_VALIDATION.REGEX,
-    `Invalid ZIP code. Must be ${ZIP_VALIDATION.FORMAT_EXAMPLE}`
-  )
-  .refine(
-    (zip) => isValidZipRange(zip),
-    'Invalid US ZIP code'
-  );
+export function applyServerErrors<T extends FieldValues>(
+  errors: FieldErrors,
+  setError: UseFormSetError<T>,
+  fieldMap: Partial<Record<string, Path<T>>>
+): string[] {
+  const unmatched: string[] = [];
+  const messages = new Map<Path<T>, string[]>();
 
-/**
- * Files validation schema
- * Requires at least one file
- * Each file must be under 3MB
- * Only PDF, JPG, and PNG allowed
- */
-const filesSchema = z
-  .any()
-  .refine((files) => files instanceof FileList && files.length > 0, {
-    message: 'At least one document is required',
-  })
-  .refine(
-    (files) => {
-      if (!(files instanceof FileList)) return false;
-      for (let i = 0; i < files.length; i++) {
-        if (files[i].size > FILE_VALIDATION.MAX_SIZE) return false;
-      }
-      return true;
-    },
-    {
-      message: 'Each file must be less than 3MB',
-    }
-  )
-  .refine(
-    (files) => {
-      if (!(files instanceof FileList)) return false;
-      for (let i = 0; i < files.length; i++) {
-        if (!FILE_VALIDATION.ALLOWED_TYPES.includes(files[i].type as typeof FILE_VALIDATION.ALLOWED_TYPES[number])) return false;
-      }
-      return true;
-    },
-    {
-      message: 'Only PDF, JPG, and PNG files are allowed',
+  for (const [field, fieldErrors] of Object.entries(errors)) {
+    const formField = fieldMap[field];
+
+    if (!formField) {
+      unmatched.push(...fieldErrors.map((error) => error.message));
+      continue;
     }
-  );
 
-/**
- * Complete investor form validation schema
- */
-export const investorSchema = z.object({
-  firstName: firstNameSchema,
-  lastName: lastNameSchema,
-  dateOfBirth: dateOfBirthSchema,
-  phoneNumber: phoneNumberSchema,
-  streetAddress: streetAddressSchema,
-  state: stateSchema,
-  zipCode: zipCodeSchema,
-  files: filesSchema,
-});
+    messages.set(formField, [
+      ...(messages.get(formField) ?? []),
+      ...fieldErrors.map((error) => error.message),
+    ]);
+  }
 
-/**
- * Type inference from schema
- */
-export type InvestorFormData = z.infer<typeof investorSchema>;
+  for (const [formField, fieldMessages] of messages) {
+    setError(formField, { type: 'server', message: fieldMessages.join(' ') });
+  }
+
+  return unmatched;
+}
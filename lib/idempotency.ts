@@ -0,0 +1,281 @@
+/**
+ * Idempotency keys for POST /api/investors
+ *
+ * A client sends an Idempotency-Key header (any unique string, e.g. a UUID
+ * per form submission). The first request with a key claims it; its 201
+ * response is stored in the same transaction that creates the investor, and
+ * a retry with the same key gets that response back instead of creating a
+ * second investor. Keys are scoped to the user and kept for
+ * IDEMPOTENCY_KEY_TTL_HOURS (default 24).
+ *
+ * - A retry while the first request is still running gets 409
+ * - Reusing a key for a different submission gets 422
+ * - A failed request releases its key, so the client may retry with it
+ * - A claim still open after the request's maximum duration belongs to a
+ *   request that died without releasing it, and the next retry takes it
+ *   over. Each claim is fenced by the time it was made, so a request whose
+ *   claim was taken over can neither store its response nor release the
+ *   new claim.
+ */
+
+import { createHash } from 'crypto';
+import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { db, type TransactionClient } from '@/lib/db';
+import { DatabaseError, DatabaseErrorCode } from '@/lib/db-utils';
+import { ERROR_MESSAGES } from '@/lib/validation-constants';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Printable ASCII without spaces, as accepted by most idempotency clients
+const IDEMPOTENCY_KEY_REGEX = /^[\x21-\x7e]{1,255}$/;
+
+const DEFAULT_TTL_HOURS = 24;
+
+/**
+ * Longest a request holding a claim may run, in seconds
+ * POST /api/investors exports the same value as its maxDuration
+ */
+export const IDEMPOTENT_REQUEST_MAX_DURATION_SECONDS = 60;
+
+// A claim older than this without a response is treated as abandoned; the
+// margin covers clock skew between app instances and the database
+const CLAIM_TIMEOUT_MS = (IDEMPOTENT_REQUEST_MAX_DURATION_SECONDS + 30) * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface IdempotencyKeyRef {
+  userId: string;
+  key: string;
+}
+
+/**
+ * A key claimed by the current request
+ * claimedAt identifies this claim once a retry has taken the key over
+ */
+export interface IdempotencyClaim extends IdempotencyKeyRef {
+  claimedAt: Date;
+}
+
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+/**
+ * Either the stored response to replay, or a claim to process the request
+ */
+export type IdempotentRequestStart =
+  | { stored: StoredResponse }
+  | { claim: IdempotencyClaim };
+
+/**
+ * Error for a key that another request holds
+ */
+function keyInProgress(): DatabaseError {
+  return new DatabaseError(
+    ERROR_MESSAGES.IDEMPOTENCY_KEY_IN_PROGRESS,
+    'CONFLICT'
+  );
+}
+
+/**
+ * How long completed responses are kept, from the environment
+ */
+export function getIdempotencyTtlHours(): number {
+  const value = process.env.IDEMPOTENCY_KEY_TTL_HOURS;
+
+  if (value === undefined || value === '') {
+    return DEFAULT_TTL_HOURS;
+  }
+
+  if (!/^[1-9]\d*$/.test(value)) {
+    throw new Error('IDEMPOTENCY_KEY_TTL_HOURS must be a positive integer');
+  }
+
+  return parseInt(value, 10);
+}
+
+/**
+ * The request's Idempotency-Key, or null when it has none
+ * Throws VALIDATION_ERROR for a malformed key
+ */
+export function readIdempotencyKey(request: NextRequest): string | null {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+
+  if (key === null) {
+    return null;
+  }
+
+  if (!IDEMPOTENCY_KEY_REGEX.test(key)) {
+    throw new DatabaseError(
+      ERROR_MESSAGES.IDEMPOTENCY_KEY_INVALID,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  return key;
+}
+
+/**
+ * Fingerprint of a multipart submission: every field value, and the name,
+ * size and type of every file, in order
+ */
+export function fingerprintFormData(formData: FormData): string {
+  const hash = createHash('sha256');
+
+  for (const [name, value] of formData.entries()) {
+    const part =
+      typeof value === 'string'
+        ? [name, value]
+        : [name, value.name, String(value.size), value.type];
+
+    hash.update(JSON.stringify(part));
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Claim a key for a new request
+ * Returns the stored response when the key has already completed, or the
+ * claim when the caller should go ahead and process the request
+ */
+export async function beginIdempotentRequest(
+  ref: IdempotencyKeyRef,
+  requestHash: string
+): Promise<IdempotentRequestStart> {
+  const now = new Date();
+  const expiresAt = new Date(
+    now.getTime() + getIdempotencyTtlHours() * HOUR_MS
+  );
+  const claim: IdempotencyClaim = { ...ref, claimedAt: now };
+
+  const existing = await db.idempotencyKey.findUnique({
+    where: { userId_key: ref },
+  });
+
+  if (!existing) {
+    try {
+      await db.idempotencyKey.create({
+        data: { ...ref, requestHash, createdAt: now, expiresAt },
+      });
+      return { claim };
+    } catch (error) {
+      // Another request claimed the key first
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === DatabaseErrorCode.UNIQUE_CONSTRAINT
+      ) {
+        throw keyInProgress();
+      }
+      throw error;
+    }
+  }
+
+  const isAbandoned =
+    existing.statusCode === null &&
+    existing.createdAt.getTime() <= now.getTime() - CLAIM_TIMEOUT_MS;
+
+  if (existing.expiresAt <= now || isAbandoned) {
+    // Conditional so only one retry takes over the old claim
+    const reclaimed = await db.idempotencyKey.updateMany({
+      where: { ...ref, createdAt: existing.createdAt },
+      data: {
+        requestHash,
+        statusCode: null,
+        response: Prisma.DbNull,
+        investorId: null,
+        createdAt: now,
+        expiresAt,
+      },
+    });
+
+    if (reclaimed.count === 0) {
+      throw keyInProgress();
+    }
+
+    return { claim };
+  }
+
+  if (existing.requestHash !== requestHash) {
+    throw new DatabaseError(
+      ERROR_MESSAGES.IDEMPOTENCY_KEY_REUSED,
+      'UNPROCESSABLE'
+    );
+  }
+
+  if (existing.statusCode === null) {
+    throw keyInProgress();
+  }
+
+  return {
+    stored: { statusCode: existing.statusCode, body: existing.response },
+  };
+}
+
+/**
+ * Store the response for replay
+ * Pass the transaction client that makes the change so both commit together.
+ * Throws CONFLICT when a retry has taken the claim over, rolling the change
+ * back so the submission is not processed twice.
+ */
+export async function completeIdempotentRequest(
+  claim: IdempotencyClaim,
+  response: StoredResponse & { investorId: string },
+  client: Pick<TransactionClient, 'idempotencyKey'> = db
+): Promise<void> {
+  const completed = await client.idempotencyKey.updateMany({
+    where: {
+      userId: claim.userId,
+      key: claim.key,
+      createdAt: claim.claimedAt,
+      statusCode: null,
+    },
+    data: {
+      statusCode: response.statusCode,
+      // Round-trip through JSON so dates are stored as they are sent
+      response: JSON.parse(JSON.stringify(response.body)),
+      investorId: response.investorId,
+    },
+  });
+
+  if (completed.count === 0) {
+    throw keyInProgress();
+  }
+}
+
+/**
+ * Give up a claim that did not complete, so the key can be retried
+ * Leaves the key alone once a retry has taken the claim over. Never throws:
+ * a leftover claim only delays retries until it is abandoned
+ */
+export async function releaseIdempotencyKey(
+  claim: IdempotencyClaim
+): Promise<void> {
+  try {
+    await db.idempotencyKey.deleteMany({
+      where: {
+        userId: claim.userId,
+        key: claim.key,
+        createdAt: claim.claimedAt,
+        statusCode: null,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to release idempotency key:', error);
+  }
+}
+
+/**
+ * Delete keys whose replay window has passed
+ */
+export async function purgeExpiredIdempotencyKeys(
+  now: Date = new Date()
+): Promise<number> {
+  const result = await db.idempotencyKey.deleteMany({
+    where: { expiresAt: { lte: now } },
+  });
+
+  return result.count;
+}
@@ -0,0 +1,416 @@
+/**
+ * Duplicate investor detection and merging
+ *
+ * Nothing stops the same person from submitting twice, and the identifying
+ * fields are either encrypted or too loose for a unique constraint. Instead a
+ * new submission is compared with existing investors that share its phone
+ * number (via the blind index), ZIP code or last name, and scored on:
+ *   - phone number    exact match of the normalized number
+ *   - date of birth   exact match
+ *   - name            similarity of the full names, in either order
+ *   - ZIP code        exact match
+ *
+ * Likely duplicates block submissions by staff. An applicant's submission is
+ * accepted and flagged in its status history instead, so the API never tells
+ * an applicant whether someone else's details are on file. Possible
+ * duplicates are reported to reviewers, who can merge one investor into
+ * another.
+ */
+
+import type { InvestorStatus } from '@prisma/client';
+import { db, INVESTOR_FILE_PUBLIC_OMIT, INVESTOR_PUBLIC_OMIT } from '@/lib/db';
+import {
+  DatabaseError,
+  DatabaseErrorCode,
+  lockInvestors,
+} from '@/lib/db-utils';
+import {
+  diffInvestorFields,
+  recordAuditEvents,
+  type AuditContext,
+} from '@/lib/audit';
+import { phoneNumberBlindIndex, phoneNumberWhere } from '@/lib/pii-encryption';
+import { ERROR_MESSAGES, FILE_VALIDATION } from '@/lib/validation-constants';
+
+export const DUPLICATE_DETECTION = {
+  // Contribution of each signal to the score; they add up to 1
+  WEIGHTS: {
+    phoneNumber: 0.35,
+    dateOfBirth: 0.3,
+    name: 0.25,
+    zipCode: 0.1,
+  },
+  // Names at least this similar count as a match
+  NAME_MATCH_THRESHOLD: 0.85,
+  // Reported to reviewers as a possible duplicate
+  POSSIBLE_SCORE: 0.5,
+  // Blocks a new submission
+  LIKELY_SCORE: 0.8,
+  // Investors named in the status note of a flagged submission
+  MAX_NOTE_MATCHES: 10,
+  // Upper bound on investors sharing only a ZIP code or last name that are
+  // compared with one submission; phone number matches are always compared
+  MAX_CANDIDATES: 200,
+} as const;
+
+export type DuplicateSignal = keyof typeof DUPLICATE_DETECTION.WEIGHTS;
+
+export interface DuplicateCheckInput {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string; // YYYY-MM-DD
+  phoneNumber: string; // Normalized to 10 digits
+  zipCode: string;
+}
+
+export interface DuplicateMatch {
+  investorId: string;
+  score: number;
+  matchedOn: DuplicateSignal[];
+}
+
+export interface DuplicateCandidate extends DuplicateMatch {
+  firstName: string;
+  lastName: string;
+  state: string;
+  zipCode: string;
+  status: InvestorStatus;
+  createdAt: Date;
+}
+
+/**
+ * Lowercase letters only, with accents removed
+ */
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+}
+
+/**
+ * Edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two strings from 0 (nothing in common) to 1 (identical)
+ */
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+/**
+ * Similarity of two full names, allowing first and last name to be swapped
+ */
+export function nameSimilarity(
+  a: { firstName: string; lastName: string },
+  b: { firstName: string; lastName: string }
+): number {
+  const first = normalizeName(a.firstName + a.lastName);
+
+  return Math.max(
+    similarity(first, normalizeName(b.firstName + b.lastName)),
+    similarity(first, normalizeName(b.lastName + b.firstName))
+  );
+}
+
+/**
+ * Whether a match is strong enough to block a new submission
+ */
+export function isLikelyDuplicate(match: DuplicateMatch): boolean {
+  return match.score >= DUPLICATE_DETECTION.LIKELY_SCORE;
+}
+
+/**
+ * Internal status note for an applicant's submission that was accepted
+ * although it looks like an existing investor
+ */
+export function duplicateReviewNote(matches: DuplicateMatch[]): string {
+  const named = matches
+    .slice(0, DUPLICATE_DETECTION.MAX_NOTE_MATCHES)
+    .map((match) => `${match.investorId} (score ${match.score})`);
+
+  return `Likely duplicate of ${named.join(', ')}. Check before approving.`;
+}
+
+/**
+ * Investors that look like the same person, most similar first
+ * Soft-deleted investors are not considered
+ */
+export async function findDuplicateCandidates(
+  input: DuplicateCheckInput,
+  options: { excludeId?: string } = {}
+): Promise<DuplicateCandidate[]> {
+  const { WEIGHTS } = DUPLICATE_DETECTION;
+  const phoneNumberHash = phoneNumberBlindIndex(input.phoneNumber);
+
+  const excluded = options.excludeId && { id: { not: options.excludeId } };
+  const select = {
+    id: true,
+    firstName: true,
+    lastName: true,
+    dateOfBirth: true,
+    phoneNumberHash: true,
+    state: true,
+    zipCode: true,
+    status: true,
+    createdAt: true,
+  } as const;
+
+  // Exact phone matches are few and the strongest signal, so they are never
+  // crowded out by the cap on the looser ZIP code and last name matches
+  const [phoneMatches, looseMatches] = await Promise.all([
+    db.investor.findMany({
+      where: { ...excluded, ...phoneNumberWhere(input.phoneNumber) },
+      select,
+    }),
+    db.investor.findMany({
+      where: {
+        ...excluded,
+        NOT: phoneNumberWhere(input.phoneNumber),
+        OR: [
+          { zipCode: input.zipCode },
+          { lastName: { equals: input.lastName, mode: 'insensitive' } },
+        ],
+      },
+      select,
+      orderBy: { createdAt: 'desc' },
+      take: DUPLICATE_DETECTION.MAX_CANDIDATES,
+    }),
+  ]);
+
+  const candidates: DuplicateCandidate[] = [];
+
+  for (const investor of [...phoneMatches, ...looseMatches]) {
+    const names = nameSimilarity(input, investor);
+    const signals: Record<DuplicateSignal, boolean> = {
+      phoneNumber: investor.phoneNumberHash === phoneNumberHash,
+      dateOfBirth:
+        investor.dateOfBirth.toISOString().slice(0, 10) === input.dateOfBirth,
+      name: names >= DUPLICATE_DETECTION.NAME_MATCH_THRESHOLD,
+      zipCode: investor.zipCode === input.zipCode,
+    };
+
+    const matchedOn = (Object.keys(signals) as DuplicateSignal[]).filter(
+      (signal) => signals[signal]
+    );
+
+    // Partly similar names still add to the score
+    const score =
+      matchedOn
+        .filter((signal) => signal !== 'name')
+        .reduce((total, signal) => total + WEIGHTS[signal], 0) +
+      WEIGHTS.name * names;
+
+    if (score < DUPLICATE_DETECTION.POSSIBLE_SCORE) continue;
+
+    candidates.push({
+      investorId: investor.id,
+      score: Math.round(score * 100) / 100,
+      matchedOn,
+      firstName: investor.firstName,
+      lastName: investor.lastName,
+      state: investor.state,
+      zipCode: investor.zipCode,
+      status: investor.status,
+      createdAt: investor.createdAt,
+    });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Possible duplicates of an existing investor
+ */
+export async function findInvestorDuplicates(
+  investorId: string
+): Promise<DuplicateCandidate[]> {
+  const investor = await db.investor.findUnique({
+    where: { id: investorId },
+    select: {
+      firstName: true,
+      lastName: true,
+      dateOfBirth: true,
+      phoneNumber: true,
+      zipCode: true,
+    },
+  });
+
+  if (!investor) {
+    throw new DatabaseError(
+      'Investor not found.',
+      DatabaseErrorCode.RECORD_NOT_FOUND
+    );
+  }
+
+  return findDuplicateCandidates(
+    {
+      ...investor,
+      dateOfBirth: investor.dateOfBirth.toISOString().slice(0, 10),
+    },
+    { excludeId: investorId }
+  );
+}
+
+/**
+ * Merge a duplicate (source) into the investor that is kept (target)
+ *
+ * The source's documents and status history move to the target, its
+ * applicant account is relinked when the target has none, and the source is
+ * soft-deleted with mergedIntoId pointing at the target. Runs in one
+ * transaction with its audit events. Rejected when the combined documents
+ * would exceed the per-investor caps.
+ */
+export async function mergeInvestors(
+  targetId: string,
+  sourceId: string,
+  audit: AuditContext
+) {
+  return db.$transaction(async (tx) => {
+    // Hold both records so uploads cannot slip past the document caps below
+    await lockInvestors(tx, [targetId, sourceId]);
+
+    const target = await tx.investor.findUnique({
+      where: { id: targetId },
+      select: { id: true, user: { select: { id: true } } },
+    });
+
+    if (!target) {
+      throw new DatabaseError(
+        'Investor not found.',
+        DatabaseErrorCode.RECORD_NOT_FOUND
+      );
+    }
+
+    const source = await tx.investor.findUnique({
+      where: { id: sourceId },
+      include: {
+        files: { select: { id: true } },
+        user: { select: { id: true } },
+      },
+    });
+
+    if (!source) {
+      throw new DatabaseError(
+        ERROR_MESSAGES.MERGE_SOURCE_NOT_FOUND,
+        DatabaseErrorCode.RECORD_NOT_FOUND
+      );
+    }
+
+    if (source.user && target.user) {
+      throw new DatabaseError(ERROR_MESSAGES.MERGE_BOTH_LINKED, 'CONFLICT');
+    }
+
+    const combined = await tx.investorFile.aggregate({
+      where: { investorId: { in: [targetId, sourceId] } },
+      _count: true,
+      _sum: { fileSize: true },
+    });
+
+    if (
+      combined._count > FILE_VALIDATION.MAX_FILES_PER_INVESTOR ||
+      (combined._sum.fileSize ?? 0) >
+        FILE_VALIDATION.MAX_TOTAL_SIZE_PER_INVESTOR
+    ) {
+      throw new DatabaseError(ERROR_MESSAGES.MERGE_FILE_LIMIT, 'CONFLICT');
+    }
+
+    const mergedAt = new Date();
+
+    // Conditional so a concurrent delete or merge of the source loses
+    const retired = await tx.investor.updateMany({
+      where: { id: sourceId },
+      data: { deletedAt: mergedAt, mergedIntoId: targetId },
+    });
+
+    if (retired.count === 0) {
+      throw new DatabaseError(
+        ERROR_MESSAGES.MERGE_SOURCE_NOT_FOUND,
+        DatabaseErrorCode.RECORD_NOT_FOUND
+      );
+    }
+
+    await tx.investorFile.updateMany({
+      where: { investorId: sourceId },
+      data: { investorId: targetId },
+    });
+
+    await tx.investorStatusChange.updateMany({
+      where: { investorId: sourceId },
+      data: { investorId: targetId },
+    });
+
+    // Duplicates merged into the source earlier now point at the target
+    await tx.investor.updateMany({
+      where: { mergedIntoId: sourceId, deletedAt: { not: null } },
+      data: { mergedIntoId: targetId },
+    });
+
+    if (source.user) {
+      await tx.user.update({
+        where: { id: source.user.id },
+        data: { investorId: targetId },
+      });
+    }
+
+    await recordAuditEvents(
+      audit,
+      [
+        {
+          action: 'delete',
+          investorId: sourceId,
+          changes: diffInvestorFields(source, {
+            ...source,
+            deletedAt: mergedAt,
+            mergedIntoId: targetId,
+          }),
+        },
+        {
+          action: 'update',
+          investorId: targetId,
+          changes: { mergedFrom: { from: null, to: sourceId } },
+        },
+        ...source.files.map((file) => ({
+          action: 'update' as const,
+          investorId: targetId,
+          fileId: file.id,
+          changes: { investorId: { from: sourceId, to: targetId } },
+        })),
+      ],
+      tx
+    );
+
+    return tx.investor.findUniqueOrThrow({
+      where: { id: targetId },
+      omit: INVESTOR_PUBLIC_OMIT,
+      include: {
+        files: {
+          omit: INVESTOR_FILE_PUBLIC_OMIT,
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+  });
+}
@@ -0,0 +1,518 @@
+/**
+ * Investor validation schema shared by the browser and the API
+ *
+ * One Zod schema, built from validation-constants, checks an investor in the
+ * form (lib/form-validation.ts) and in the route handlers
+ * (lib/investor-validation.ts), so the two cannot drift apart. Parsing also
+ * normalizes the values that are stored:
+ *   - strings are trimmed
+ *   - phone numbers become 10 digits, without the +1 country code
+ *   - country and state codes are uppercased
+ *   - Canadian postal codes become A1A 1A1
+ *
+ * The state and ZIP code fields hold a province or territory and a postal
+ * code when the country is CA, so they are checked against the country.
+ *
+ * Every issue carries the ErrorCode of its message and the API field it
+ * belongs to, so toValidationErrors() can turn a failed parse into the
+ * grouped errors of a 400 response.
+ */
+
+import { z } from 'zod';
+import type { DocumentType } from '@prisma/client';
+import {
+  AGE_CONSTRAINTS,
+  DOCUMENT_DATE_VALIDATION,
+  ERROR_MESSAGES,
+  FIELD_LENGTHS,
+  FILE_VALIDATION,
+  PHONE_VALIDATION,
+  POSTAL_CODE_VALIDATION,
+  ZIP_VALIDATION,
+  calculateAge,
+  describeDocumentRequirement,
+  getMissingDocumentRequirements,
+  isValidCountry,
+  isValidDocumentType,
+  isValidProvinceCode,
+  isValidStateCode,
+  isValidZipRange,
+  normalizePhoneNumber,
+  normalizePostalCode,
+  type ErrorCode,
+} from '@/lib/validation-constants';
+
+export interface ValidationError {
+  field: string;
+  code: ErrorCode;
+  message: string;
+}
+
+/**
+ * A document already stored on the investor, counted towards the document
+ * requirements and the per-investor limits
+ */
+export interface KeptDocument {
+  documentType: DocumentType;
+  fileSize: number;
+}
+
+/**
+ * Params attached to every issue the schema raises
+ * field is the API field name, when it differs from the issue path
+ */
+interface IssueParams {
+  code: ErrorCode;
+  field?: string;
+}
+
+/**
+ * Codes whose message takes no arguments
+ */
+type StaticErrorCode = {
+  [K in ErrorCode]: (typeof ERROR_MESSAGES)[K] extends string ? K : never;
+}[ErrorCode];
+
+function addIssue(ctx: z.RefinementCtx, code: StaticErrorCode): void;
+function addIssue(
+  ctx: z.RefinementCtx,
+  code: ErrorCode,
+  message: string,
+  field?: string
+): void;
+function addIssue(
+  ctx: z.RefinementCtx,
+  code: ErrorCode,
+  message?: string,
+  field?: string
+): void {
+  const params: IssueParams = { code, field };
+  ctx.addIssue({
+    code: 'custom',
+    message: message ?? (ERROR_MESSAGES[code] as string),
+    params,
+  });
+}
+
+/**
+ * Parse a YYYY-MM-DD date; null when it is not a real calendar date
+ */
+export function parseDateOnly(value: string): Date | null {
+  if (!DOCUMENT_DATE_VALIDATION.REGEX.test(value)) return null;
+
+  const date = new Date(`${value}T00:00:00.000Z`);
+
+  // Reject dates that roll over, e.g. 2025-02-30
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value)
+    ? date
+    : null;
+}
+
+/**
+ * A required, trimmed text field with a maximum length
+ */
+function textSchema(
+  max: number,
+  codes: { required: StaticErrorCode; length: StaticErrorCode }
+) {
+  return z
+    .string()
+    .trim()
+    .superRefine((value, ctx) => {
+      if (!value) {
+        addIssue(ctx, codes.required);
+      } else if (value.length > max) {
+        addIssue(ctx, codes.length);
+      }
+    });
+}
+
+export const firstNameSchema = textSchema(FIELD_LENGTHS.FIRST_NAME_MAX, {
+  required: 'FIRST_NAME_REQUIRED',
+  length: 'FIRST_NAME_LENGTH',
+});
+
+export const lastNameSchema = textSchema(FIELD_LENGTHS.LAST_NAME_MAX, {
+  required: 'LAST_NAME_REQUIRED',
+  length: 'LAST_NAME_LENGTH',
+});
+
+export const streetAddressSchema = textSchema(
+  FIELD_LENGTHS.STREET_ADDRESS_MAX,
+  { required: 'STREET_ADDRESS_REQUIRED', length: 'STREET_ADDRESS_LENGTH' }
+);
+
+/**
+ * Date of birth in YYYY-MM-DD format, for an age between 18 and 120
+ */
+export const dateOfBirthSchema = z
+  .string()
+  .trim()
+  .superRefine((value, ctx) => {
+    if (!value) {
+      addIssue(ctx, 'DATE_OF_BIRTH_REQUIRED');
+    } else if (!parseDateOnly(value)) {
+      addIssue(ctx, 'DATE_OF_BIRTH_INVALID');
+    } else {
+      const age = calculateAge(value);
+
+      if (age < AGE_CONSTRAINTS.MIN || age > AGE_CONSTRAINTS.MAX) {
+        addIssue(ctx, 'AGE_RANGE');
+      }
+    }
+  });
+
+/**
+ * US/Canada phone number, e.g. 1-951-526-3834 or (951) 526-3834
+ * Output is the 10-digit number
+ */
+export const phoneNumberSchema = z
+  .string()
+  .trim()
+  .superRefine((value, ctx) => {
+    if (!value) {
+      addIssue(ctx, 'PHONE_REQUIRED');
+    } else if (!PHONE_VALIDATION.REGEX.test(value)) {
+      addIssue(ctx, 'PHONE_INVALID');
+    }
+  })
+  .overwrite(normalizePhoneNumber);
+
+/**
+ * US or CA, in either case
+ * Output is uppercase
+ */
+export const countrySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .superRefine((value, ctx) => {
+    if (!value) {
+      addIssue(ctx, 'COUNTRY_REQUIRED');
+    } else if (!isValidCountry(value)) {
+      addIssue(ctx, 'COUNTRY_INVALID');
+    }
+  });
+
+/**
+ * 2-letter state, province or territory code, in either case
+ * Output is uppercase; checked against the country by checkAddress
+ */
+export const stateSchema = z.string().trim().toUpperCase();
+
+/**
+ * ZIP or postal code
+ * Output is uppercase, with Canadian postal codes as A1A 1A1; checked
+ * against the country by checkAddress
+ */
+export const zipCodeSchema = z.string().overwrite(normalizePostalCode);
+
+interface Address {
+  country: string;
+  state: string;
+  zipCode: string;
+}
+
+/**
+ * Raise an issue on one address field from a check of the whole address
+ */
+function addAddressIssue(
+  ctx: z.RefinementCtx,
+  field: 'state' | 'zipCode',
+  code: StaticErrorCode
+): void {
+  const params: IssueParams = { code };
+  ctx.addIssue({
+    code: 'custom',
+    message: ERROR_MESSAGES[code],
+    path: [field],
+    params,
+  });
+}
+
+/**
+ * Check the state and ZIP code against the country
+ *   - US: a US state code, and a ZIP code in 5 or 9 digit format in the
+ *     range 00501-99950
+ *   - CA: a province or territory code, and a postal code in A1A 1A1 format
+ */
+function checkAddress(
+  { country, state, zipCode }: Address,
+  ctx: z.RefinementCtx
+) {
+  // An unsupported country is reported on the country field
+  if (!isValidCountry(country)) return;
+
+  if (country === 'CA') {
+    if (!state) {
+      addAddressIssue(ctx, 'state', 'PROVINCE_REQUIRED');
+    } else if (!isValidProvinceCode(state)) {
+      addAddressIssue(ctx, 'state', 'PROVINCE_INVALID');
+    }
+
+    if (!zipCode) {
+      addAddressIssue(ctx, 'zipCode', 'POSTAL_CODE_REQUIRED');
+    } else if (!POSTAL_CODE_VALIDATION.REGEX.test(zipCode)) {
+      addAddressIssue(ctx, 'zipCode', 'POSTAL_CODE_FORMAT');
+    }
+
+    return;
+  }
+
+  if (!state) {
+    addAddressIssue(ctx, 'state', 'STATE_REQUIRED');
+  } else if (state.length !== FIELD_LENGTHS.STATE_LENGTH) {
+    addAddressIssue(ctx, 'state', 'STATE_LENGTH');
+  } else if (!isValidStateCode(state)) {
+    addAddressIssue(ctx, 'state', 'STATE_INVALID');
+  }
+
+  if (!zipCode) {
+    addAddressIssue(ctx, 'zipCode', 'ZIP_REQUIRED');
+  } else if (!ZIP_VALIDATION.REGEX.test(zipCode)) {
+    addAddressIssue(ctx, 'zipCode', 'ZIP_FORMAT');
+  } else if (!isValidZipRange(zipCode)) {
+    addAddressIssue(ctx, 'zipCode', 'ZIP_RANGE');
+  }
+}
+
+const addressShape = {
+  country: countrySchema,
+  state: stateSchema,
+  zipCode: zipCodeSchema,
+};
+
+const investorFieldsShape = {
+  firstName: firstNameSchema,
+  lastName: lastNameSchema,
+  dateOfBirth: dateOfBirthSchema,
+  phoneNumber: phoneNumberSchema,
+  streetAddress: streetAddressSchema,
+  ...addressShape,
+};
+
+/**
+ * A complete address: country, state and ZIP code
+ */
+export const addressSchema = z.object(addressShape).superRefine(checkAddress);
+
+/**
+ * The investor's own fields, without documents
+ */
+export const investorFieldsSchema = z
+  .object(investorFieldsShape)
+  .superRefine(checkAddress);
+
+/**
+ * The fields of an edit, each optional
+ * The address is not checked here, since an edit may change only part of
+ * it; check the result merged with the stored address using addressSchema
+ */
+export const investorChangesSchema = z.object(investorFieldsShape).partial();
+
+/**
+ * One uploaded document with its per-file fields
+ * Dates are optional YYYY-MM-DD strings; empty means not given
+ */
+const documentSchema = z.object({
+  file: z.custom<File>((value) => value instanceof File, {
+    error: ERROR_MESSAGES.FIELD_INVALID('files'),
+    params: { code: 'FIELD_INVALID', field: 'files' } satisfies IssueParams,
+  }),
+  documentType: z.string(),
+  issueDate: z.string().trim(),
+  expiryDate: z.string().trim(),
+});
+
+export type DocumentInput = z.input<typeof documentSchema>;
+export type DocumentOutput = z.output<typeof documentSchema>;
+
+/**
+ * Check the type, dates and file of one document
+ * An expired document cannot be submitted
+ */
+function checkDocument(
+  { file, documentType, issueDate, expiryDate }: DocumentOutput,
+  today: string,
+  ctx: z.RefinementCtx
+): void {
+  if (!isValidDocumentType(documentType)) {
+    addIssue(
+      ctx,
+      'DOCUMENT_TYPE_INVALID',
+      ERROR_MESSAGES.DOCUMENT_TYPE_INVALID(file.name),
+      'documentType'
+    );
+  }
+
+  // Dates are YYYY-MM-DD, so valid ones compare as strings
+  const issued = issueDate && parseDateOnly(issueDate) ? issueDate : null;
+  const expires = expiryDate && parseDateOnly(expiryDate) ? expiryDate : null;
+
+  if (issueDate && !issued) {
+    addIssue(
+      ctx,
+      'DOCUMENT_DATE_INVALID',
+      ERROR_MESSAGES.DOCUMENT_DATE_INVALID('issueDate', file.name),
+      'issueDate'
+    );
+  } else if (issued && issued > today) {
+    addIssue(
+      ctx,
+      'DOCUMENT_ISSUE_DATE_FUTURE',
+      ERROR_MESSAGES.DOCUMENT_ISSUE_DATE_FUTURE(file.name),
+      'issueDate'
+    );
+  }
+
+  if (expiryDate && !expires) {
+    addIssue(
+      ctx,
+      'DOCUMENT_DATE_INVALID',
+      ERROR_MESSAGES.DOCUMENT_DATE_INVALID('expiryDate', file.name),
+      'expiryDate'
+    );
+  } else if (expires && expires < today) {
+    addIssue(
+      ctx,
+      'DOCUMENT_EXPIRED',
+      ERROR_MESSAGES.DOCUMENT_EXPIRED(file.name),
+      'expiryDate'
+    );
+  } else if (expires && issued && expires <= issued) {
+    addIssue(
+      ctx,
+      'DOCUMENT_EXPIRY_BEFORE_ISSUE',
+      ERROR_MESSAGES.DOCUMENT_EXPIRY_BEFORE_ISSUE(file.name),
+      'expiryDate'
+    );
+  }
+
+  if (file.size > FILE_VALIDATION.MAX_SIZE) {
+    addIssue(ctx, 'FILE_SIZE', ERROR_MESSAGES.FILE_SIZE(file.name), 'files');
+  }
+
+  if (
+    !FILE_VALIDATION.ALLOWED_TYPES.includes(
+      file.type as (typeof FILE_VALIDATION.ALLOWED_TYPES)[number]
+    )
+  ) {
+    addIssue(ctx, 'FILE_TYPE', ERROR_MESSAGES.FILE_TYPE(file.name), 'files');
+  }
+
+  if (file.name.length > FILE_VALIDATION.MAX_FILENAME_LENGTH) {
+    addIssue(
+      ctx,
+      'FILE_NAME_LENGTH',
+      ERROR_MESSAGES.FILE_NAME_LENGTH(file.name),
+      'files'
+    );
+  }
+
+  if (file.type.length > FILE_VALIDATION.MAX_MIME_TYPE_LENGTH) {
+    addIssue(
+      ctx,
+      'FILE_MIME_TYPE',
+      ERROR_MESSAGES.FILE_MIME_TYPE(file.name),
+      'files'
+    );
+  }
+}
+
+/**
+ * Documents being uploaded for an investor
+ * kept are the documents the investor already has and keeps; together with
+ * the new ones they must satisfy DOCUMENT_REQUIREMENTS and stay within the
+ * per-investor limits. Issues are raised on the array as a whole, which is
+ * where the form shows them.
+ */
+export function documentsSchema(kept: readonly KeptDocument[] = []) {
+  return z.array(documentSchema).superRefine((documents, ctx) => {
+    if (documents.length === 0) {
+      addIssue(ctx, 'FILES_REQUIRED', ERROR_MESSAGES.FILES_REQUIRED, 'files');
+      return;
+    }
+
+    // The server compares in UTC too
+    const today = new Date().toISOString().slice(0, 10);
+
+    for (const document of documents) {
+      checkDocument(document, today, ctx);
+    }
+
+    if (
+      kept.length + documents.length >
+      FILE_VALIDATION.MAX_FILES_PER_INVESTOR
+    ) {
+      addIssue(
+        ctx,
+        'FILE_COUNT_LIMIT',
+        ERROR_MESSAGES.FILE_COUNT_LIMIT,
+        'files'
+      );
+    }
+
+    const totalSize =
+      kept.reduce((sum, document) => sum + document.fileSize, 0) +
+      documents.reduce((sum, document) => sum + document.file.size, 0);
+
+    if (totalSize > FILE_VALIDATION.MAX_TOTAL_SIZE_PER_INVESTOR) {
+      addIssue(
+        ctx,
+        'FILE_TOTAL_SIZE_LIMIT',
+        ERROR_MESSAGES.FILE_TOTAL_SIZE_LIMIT,
+        'files'
+      );
+    }
+
+    for (const requirement of getMissingDocumentRequirements([
+      ...kept.map((document) => document.documentType),
+      ...documents.map((document) => document.documentType),
+    ])) {
+      addIssue(
+        ctx,
+        'DOCUMENT_REQUIRED',
+        ERROR_MESSAGES.DOCUMENT_REQUIRED(
+          requirement.label,
+          describeDocumentRequirement(requirement)
+        ),
+        'files'
+      );
+    }
+  });
+}
+
+/**
+ * A new investor with their documents
+ */
+export const investorSchema = z
+  .object({ ...investorFieldsShape, documents: documentsSchema() })
+  .superRefine(checkAddress);
+
+/**
+ * Convert a failed parse into API validation errors
+ * Issues the schema does not raise itself, such as a value of the wrong
+ * type, are reported against the innermost named field
+ */
+export function toValidationErrors(error: z.ZodError): ValidationError[] {
+  return error.issues.map((issue) => {
+    const key = [...issue.path].reverse().find((k) => typeof k === 'string');
+    const field = key === undefined ? 'body' : String(key);
+    const params =
+      issue.code === 'custom' ? (issue.params as IssueParams) : undefined;
+
+    if (!params?.code) {
+      return {
+        field,
+        code: 'FIELD_INVALID',
+        message: ERROR_MESSAGES.FIELD_INVALID(field),
+      };
+    }
+
+    return {
+      field: params.field ?? field,
+      code: params.code,
+      message: issue.message,
+    };
+  });
+}
@@ -0,0 +1,325 @@
+/**
+ * Search, filter and sort helpers for the investor list endpoint
+ * Turns URL query parameters into validated InvestorSearchParams and Prisma queries
+ */
+
+import type { InvestorStatus } from '@prisma/client';
+import {
+  SEARCH_VALIDATION,
+  ERROR_MESSAGES,
+  INVESTOR_STATUSES,
+  isValidProvinceCode,
+  isValidStateCode,
+} from '@/lib/validation-constants';
+import type { ValidationError } from '@/lib/investor-validation';
+import type {
+  InvestorSearchParams,
+  InvestorWhereInput,
+  InvestorOrderByInput,
+} from '@/types/investor';
+
+type SortField = (typeof SEARCH_VALIDATION.SORT_FIELDS)[number];
+type SortOrder = (typeof SEARCH_VALIDATION.SORT_ORDERS)[number];
+type PaginationMode = (typeof SEARCH_VALIDATION.PAGINATION_MODES)[number];
+
+/**
+ * Search params with defaults applied
+ */
+export type ResolvedSearchParams = InvestorSearchParams &
+  Required<
+    Pick<
+      InvestorSearchParams,
+      'page' | 'pageSize' | 'sortBy' | 'sortOrder' | 'pagination'
+    >
+  >;
+
+export interface SearchParamsValidationResult {
+  isValid: boolean;
+  errors: ValidationError[];
+  data?: ResolvedSearchParams;
+}
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse a positive integer query parameter, returning null if invalid
+ */
+function parsePositiveInt(value: string): number | null {
+  if (!/^\d+$/.test(value)) return null;
+  const parsed = parseInt(value, 10);
+  return parsed > 0 ? parsed : null;
+}
+
+/**
+ * Parse a date query parameter, returning null if invalid
+ */
+function parseDate(value: string): Date | null {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Validate and normalize investor list query parameters
+ */
+export function parseInvestorSearchParams(
+  searchParams: URLSearchParams
+): SearchParamsValidationResult {
+  const errors: ValidationError[] = [];
+  const params: ResolvedSearchParams = {
+    page: SEARCH_VALIDATION.DEFAULT_PAGE,
+    pageSize: SEARCH_VALIDATION.DEFAULT_PAGE_SIZE,
+    sortBy: SEARCH_VALIDATION.DEFAULT_SORT_BY,
+    sortOrder: SEARCH_VALIDATION.DEFAULT_SORT_ORDER,
+    pagination: SEARCH_VALIDATION.DEFAULT_PAGINATION_MODE,
+  };
+
+  const query = searchParams.get('query')?.trim();
+  if (query) {
+    if (query.length > SEARCH_VALIDATION.MAX_QUERY_LENGTH) {
+      errors.push({
+        field: 'query',
+        code: 'SEARCH_QUERY_LENGTH',
+        message: ERROR_MESSAGES.SEARCH_QUERY_LENGTH,
+      });
+    } else {
+      params.query = query;
+    }
+  }
+
+  const state = searchParams.get('state')?.trim();
+  if (state) {
+    if (!isValidStateCode(state) && !isValidProvinceCode(state)) {
+      errors.push({
+        field: 'state',
+        code: 'SEARCH_STATE_INVALID',
+        message: ERROR_MESSAGES.SEARCH_STATE_INVALID,
+      });
+    } else {
+      params.state = state.toUpperCase();
+    }
+  }
+
+  const status = searchParams.get('status');
+  if (status) {
+    if (!INVESTOR_STATUSES.includes(status as InvestorStatus)) {
+      errors.push({
+        field: 'status',
+        code: 'STATUS_INVALID',
+        message: ERROR_MESSAGES.STATUS_INVALID,
+      });
+    } else {
+      params.status = status as InvestorStatus;
+    }
+  }
+
+  const startDate = searchParams.get('startDate');
+  if (startDate) {
+    const parsed = parseDate(startDate);
+    if (!parsed) {
+      errors.push({
+        field: 'startDate',
+        code: 'SEARCH_DATE_INVALID',
+        message: ERROR_MESSAGES.SEARCH_DATE_INVALID('startDate'),
+      });
+    } else {
+      params.startDate = parsed;
+    }
+  }
+
+  const endDate = searchParams.get('endDate');
+  if (endDate) {
+    const parsed = parseDate(endDate);
+    if (!parsed) {
+      errors.push({
+        field: 'endDate',
+        code: 'SEARCH_DATE_INVALID',
+        message: ERROR_MESSAGES.SEARCH_DATE_INVALID('endDate'),
+      });
+    } else {
+      // A date-only end date includes the whole day
+      if (DATE_ONLY_REGEX.test(endDate)) {
+        parsed.setUTCDate(parsed.getUTCDate() + 1);
+        parsed.setUTCMilliseconds(parsed.getUTCMilliseconds() - 1);
+      }
+      params.endDate = parsed;
+    }
+  }
+
+  if (params.startDate && params.endDate && params.startDate > params.endDate) {
+    errors.push({
+      field: 'endDate',
+      code: 'SEARCH_DATE_RANGE',
+      message: ERROR_MESSAGES.SEARCH_DATE_RANGE,
+    });
+  }
+
+  const page = searchParams.get('page');
+  if (page) {
+    const parsed = parsePositiveInt(page);
+    if (parsed === null) {
+      errors.push({
+        field: 'page',
+        code: 'SEARCH_PAGE_INVALID',
+        message: ERROR_MESSAGES.SEARCH_PAGE_INVALID,
+      });
+    } else {
+      params.page = parsed;
+    }
+  }
+
+  const pageSize = searchParams.get('pageSize');
+  if (pageSize) {
+    const parsed = parsePositiveInt(pageSize);
+    if (parsed === null || parsed > SEARCH_VALIDATION.MAX_PAGE_SIZE) {
+      errors.push({
+        field: 'pageSize',
+        code: 'SEARCH_PAGE_SIZE_INVALID',
+        message: ERROR_MESSAGES.SEARCH_PAGE_SIZE_INVALID,
+      });
+    } else {
+      params.pageSize = parsed;
+    }
+  }
+
+  const sortBy = searchParams.get('sortBy');
+  if (sortBy) {
+    if (!SEARCH_VALIDATION.SORT_FIELDS.includes(sortBy as SortField)) {
+      errors.push({
+        field: 'sortBy',
+        code: 'SEARCH_SORT_BY_INVALID',
+        message: ERROR_MESSAGES.SEARCH_SORT_BY_INVALID,
+      });
+    } else {
+      params.sortBy = sortBy as SortField;
+    }
+  }
+
+  const sortOrder = searchParams.get('sortOrder');
+  if (sortOrder) {
+    if (!SEARCH_VALIDATION.SORT_ORDERS.includes(sortOrder as SortOrder)) {
+      errors.push({
+        field: 'sortOrder',
+        code: 'SEARCH_SORT_ORDER_INVALID',
+        message: ERROR_MESSAGES.SEARCH_SORT_ORDER_INVALID,
+      });
+    } else {
+      params.sortOrder = sortOrder as SortOrder;
+    }
+  }
+
+  const pagination = searchParams.get('pagination');
+  if (pagination) {
+    if (
+      !SEARCH_VALIDATION.PAGINATION_MODES.includes(pagination as PaginationMode)
+    ) {
+      errors.push({
+        field: 'pagination',
+        code: 'SEARCH_PAGINATION_INVALID',
+        message: ERROR_MESSAGES.SEARCH_PAGINATION_INVALID,
+      });
+    } else {
+      params.pagination = pagination as PaginationMode;
+    }
+  }
+
+  // Supplying a cursor implies cursor pagination
+  const cursor = searchParams.get('cursor');
+  if (cursor) {
+    params.cursor = cursor;
+    params.pagination = 'cursor';
+  }
+
+  if (params.pagination === 'cursor') {
+    if (params.sortBy !== 'createdAt') {
+      errors.push({
+        field: 'sortBy',
+        code: 'SEARCH_CURSOR_SORT',
+        message: ERROR_MESSAGES.SEARCH_CURSOR_SORT,
+      });
+    }
+    if (page) {
+      errors.push({
+        field: 'page',
+        code: 'SEARCH_CURSOR_PAGE',
+        message: ERROR_MESSAGES.SEARCH_CURSOR_PAGE,
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return { isValid: true, errors: [], data: params };
+}
+
+/**
+ * Convert a free-text query into Postgres tsquery prefix terms
+ * Strips tsquery operators so user input cannot alter the query structure
+ */
+export function toFullTextTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .map((term) => term.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter((term) => term.length > 0)
+    .map((term) => `${term}:*`);
+}
+
+/**
+ * Build the Prisma where clause for an investor search
+ * Name search uses Postgres full-text search (fullTextSearchPostgres preview feature)
+ */
+export function buildInvestorWhere(
+  params: InvestorSearchParams
+): InvestorWhereInput {
+  const conditions: InvestorWhereInput[] = [];
+
+  if (params.query) {
+    // Every term must match either the first or the last name
+    for (const term of toFullTextTerms(params.query)) {
+      conditions.push({
+        OR: [{ firstName: { search: term } }, { lastName: { search: term } }],
+      });
+    }
+  }
+
+  if (params.state) {
+    conditions.push({ state: params.state });
+  }
+
+  if (params.status) {
+    conditions.push({ status: params.status });
+  }
+
+  if (params.startDate || params.endDate) {
+    conditions.push({
+      createdAt: {
+        ...(params.startDate && { gte: params.startDate }),
+        ...(params.endDate && { lte: params.endDate }),
+      },
+    });
+  }
+
+  return conditions.length > 0 ? { AND: conditions } : {};
+}
+
+/**
+ * Build the Prisma order by clause for an investor search
+ * Sorting by last name or status pairs with created_at to use
+ * idx_investor_lastname_created / idx_investor_status_created;
+ * id is always the final tiebreaker so pages are stable
+ */
+export function buildInvestorOrderBy(
+  params: Pick<ResolvedSearchParams, 'sortBy' | 'sortOrder'>
+): InvestorOrderByInput[] {
+  const { sortBy, sortOrder } = params;
+  const orderBy: InvestorOrderByInput[] = [{ [sortBy]: sortOrder }];
+
+  if (sortBy !== 'createdAt') {
+    orderBy.push({ createdAt: sortOrder });
+  }
+
+  orderBy.push({ id: sortOrder });
+
+  return orderBy;
+}
@@ -0,0 +1,241 @@
+/**
+ * Investor review workflow
+ *
+ *   submitted -> in_review -> approved | rejected | needs_more_info
+ *   needs_more_info -> submitted        (applicant resubmits)
+ *   approved | rejected -> in_review    (admin reopens a decision)
+ *
+ * Every transition is stored in investor_status_changes with the user who
+ * made it and an optional note. Applicants may only edit their record while
+ * it is submitted or waiting on more information.
+ */
+
+import type {
+  InvestorStatus,
+  InvestorStatusChange,
+  UserRole,
+} from '@prisma/client';
+import { db } from '@/lib/db';
+import { DatabaseError, DatabaseErrorCode } from '@/lib/db-utils';
+import type { SessionUser } from '@/lib/auth';
+import {
+  diffInvestorFields,
+  recordAuditEvent,
+  type AuditContext,
+} from '@/lib/audit';
+import type { ValidationError } from '@/lib/investor-validation';
+import {
+  ERROR_MESSAGES,
+  INVESTOR_STATUSES,
+  STATUS_NOTE_MAX_LENGTH,
+} from '@/lib/validation-constants';
+
+export interface StatusTransitionRule {
+  from: InvestorStatus;
+  to: InvestorStatus;
+  roles: UserRole[];
+  // Rejections and information requests must say why
+  noteRequired?: boolean;
+}
+
+export const STATUS_TRANSITIONS: readonly StatusTransitionRule[] = [
+  { from: 'submitted', to: 'in_review', roles: ['reviewer', 'admin'] },
+  { from: 'in_review', to: 'approved', roles: ['reviewer', 'admin'] },
+  {
+    from: 'in_review',
+    to: 'rejected',
+    roles: ['reviewer', 'admin'],
+    noteRequired: true,
+  },
+  {
+    from: 'in_review',
+    to: 'needs_more_info',
+    roles: ['reviewer', 'admin'],
+    noteRequired: true,
+  },
+  { from: 'needs_more_info', to: 'submitted', roles: ['applicant', 'admin'] },
+  { from: 'approved', to: 'in_review', roles: ['admin'] },
+  { from: 'rejected', to: 'in_review', roles: ['admin'] },
+];
+
+/**
+ * Statuses in which an applicant may still change their own record
+ */
+export const APPLICANT_EDITABLE_STATUSES: readonly InvestorStatus[] = [
+  'submitted',
+  'needs_more_info',
+];
+
+export interface StatusChangeInput {
+  status: InvestorStatus;
+  note?: string;
+}
+
+export interface StatusChangeValidationResult {
+  isValid: boolean;
+  errors: ValidationError[];
+  data?: StatusChangeInput;
+}
+
+/**
+ * Statuses a user with this role may move an investor to from `from`
+ */
+export function getAllowedTransitions(
+  from: InvestorStatus,
+  role: UserRole
+): InvestorStatus[] {
+  return STATUS_TRANSITIONS.filter(
+    (rule) => rule.from === from && rule.roles.includes(role)
+  ).map((rule) => rule.to);
+}
+
+/**
+ * Validate a status change request body
+ */
+export function validateStatusChange(
+  body: Record<string, unknown>
+): StatusChangeValidationResult {
+  const errors: ValidationError[] = [];
+  const { status, note } = body;
+
+  if (
+    typeof status !== 'string' ||
+    !INVESTOR_STATUSES.includes(status as InvestorStatus)
+  ) {
+    errors.push({
+      field: 'status',
+      code: 'STATUS_INVALID',
+      message: ERROR_MESSAGES.STATUS_INVALID,
+    });
+  }
+
+  if (note !== undefined && note !== null) {
+    if (typeof note !== 'string') {
+      errors.push({
+        field: 'note',
+        code: 'FIELD_TYPE',
+        message: ERROR_MESSAGES.FIELD_TYPE('note'),
+      });
+    } else if (note.trim().length > STATUS_NOTE_MAX_LENGTH) {
+      errors.push({
+        field: 'note',
+        code: 'STATUS_NOTE_LENGTH',
+        message: ERROR_MESSAGES.STATUS_NOTE_LENGTH,
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  const trimmedNote = typeof note === 'string' ? note.trim() : '';
+
+  return {
+    isValid: true,
+    errors: [],
+    data: {
+      status: status as InvestorStatus,
+      ...(trimmedNote && { note: trimmedNote }),
+    },
+  };
+}
+
+/**
+ * Refuse applicant edits once a record has gone to review
+ */
+export function assertApplicantCanEdit(
+  user: SessionUser,
+  status: InvestorStatus
+): void {
+  if (
+    user.role === 'applicant' &&
+    !APPLICANT_EDITABLE_STATUSES.includes(status)
+  ) {
+    throw new DatabaseError(ERROR_MESSAGES.INVESTOR_LOCKED, 'CONFLICT');
+  }
+}
+
+/**
+ * Move an investor to a new status, recording the transition and its audit
+ * event in one transaction
+ */
+export async function changeInvestorStatus(
+  investorId: string,
+  input: StatusChangeInput,
+  audit: AuditContext
+): Promise<InvestorStatusChange> {
+  const { actor } = audit;
+
+  return db.$transaction(async (tx) => {
+    const investor = await tx.investor.findUnique({
+      where: { id: investorId },
+      select: { status: true },
+    });
+
+    if (!investor) {
+      throw new DatabaseError(
+        'Investor not found.',
+        DatabaseErrorCode.RECORD_NOT_FOUND
+      );
+    }
+
+    const rule = STATUS_TRANSITIONS.find(
+      (transition) =>
+        transition.from === investor.status && transition.to === input.status
+    );
+
+    if (!rule) {
+      throw new DatabaseError(
+        ERROR_MESSAGES.STATUS_TRANSITION_INVALID(investor.status, input.status),
+        'CONFLICT'
+      );
+    }
+
+    if (!rule.roles.includes(actor.role)) {
+      throw new DatabaseError(ERROR_MESSAGES.AUTH_FORBIDDEN, 'FORBIDDEN');
+    }
+
+    if (rule.noteRequired && !input.note) {
+      throw new DatabaseError(
+        ERROR_MESSAGES.STATUS_NOTE_REQUIRED(input.status),
+        'VALIDATION_ERROR'
+      );
+    }
+
+    // Conditional so two reviewers acting at once cannot both win
+    const updated = await tx.investor.updateMany({
+      where: { id: investorId, status: investor.status },
+      data: { status: input.status, statusChangedAt: new Date() },
+    });
+
+    if (updated.count === 0) {
+      throw new DatabaseError(ERROR_MESSAGES.STATUS_CHANGED, 'CONFLICT');
+    }
+
+    const change = await tx.investorStatusChange.create({
+      data: {
+        investorId,
+        fromStatus: investor.status,
+        toStatus: input.status,
+        note: input.note ?? null,
+        changedById: actor.id,
+      },
+    });
+
+    await recordAuditEvent(
+      audit,
+      {
+        action: 'update',
+        investorId,
+        changes: diffInvestorFields(
+          { status: investor.status },
+          { status: input.status }
+        ),
+      },
+      tx
+    );
+
+    return change;
+  });
+}
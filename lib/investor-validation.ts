@@ -1,20 +1,29 @@
 /**
  * Server-side validation for investor data
- * Provides comprehensive validation matching front-end rules
+ * The field and document rules live in the shared schema
+ * (lib/investor-schema.ts) that the front-end form uses as well; this module
+ * reads request bodies into the shape it expects
  */
 
+import type { Country, DocumentType } from '@prisma/client';
+import { ERROR_MESSAGES, type FieldErrors } from '@/lib/validation-constants';
+import type { UpdateInvestorInput } from '@/types/investor';
+import { mimeTypesMatch, sniffMimeType } from '@/lib/file-type';
 import {
-  US_STATES_LIST,
-  FILE_VALIDATION,
-  FIELD_LENGTHS,
-  AGE_CONSTRAINTS,
-  ZIP_VALIDATION,
-  ERROR_MESSAGES,
-  normalizePhoneNumber,
-  calculateAge,
-  isValidZipRange,
-  isValidStateCode,
-} from '@/lib/validation-constants';
+  addressSchema,
+  documentsSchema,
+  investorChangesSchema,
+  investorFieldsSchema,
+  investorSchema,
+  parseDateOnly,
+  toValidationErrors,
+  type DocumentInput,
+  type DocumentOutput,
+  type KeptDocument,
+  type ValidationError,
+} from '@/lib/investor-schema';
+
+export type { ValidationError } from '@/lib/investor-schema';
 
 export interface InvestorValidationData {
   firstName: string;
@@ -24,12 +33,38 @@ export interface InvestorValidationData {
   streetAddress: string;
   state: string;
   zipCode: string;
+  country: string;
   files: File[];
+  documents: DocumentFields;
 }
 
-export interface ValidationError {
-  field: string;
-  message: string;
+/**
+ * Per-file form fields sent alongside `files`, one entry per file in the same
+ * order. The date fields may be left out entirely, or sent empty for a file
+ * without that date.
+ */
+export interface DocumentFields {
+  documentType: string[];
+  issueDate: string[];
+  expiryDate: string[];
+}
+
+/**
+ * Validated per-file fields, ready to store on investor_files
+ */
+export interface DocumentRecord {
+  documentType: DocumentType;
+  issueDate: Date | null;
+  expiryDate: Date | null;
+}
+
+/**
+ * Body of a 400 response for failed validation
+ * `error` repeats the first message for clients that only show one
+ */
+export interface ValidationErrorBody {
+  error: string;
+  errors: FieldErrors;
 }
 
 export interface ValidationResult {
@@ -43,218 +78,215 @@ export interface ValidationResult {
     streetAddress: string;
     state: string;
     zipCode: string;
+    country: Country;
     files: File[];
+    documents: DocumentRecord[];
   };
 }
 
 /**
- * Validate first name
+ * Result of validating a partial investor update
  */
-function validateFirstName(firstName: string): ValidationError[] {
-  const errors: ValidationError[] = [];
-
-  if (!firstName?.trim()) {
-    errors.push({ field: 'firstName', message: ERROR_MESSAGES.FIRST_NAME_REQUIRED });
-    return errors;
-  }
-
-  if (firstName.trim().length < FIELD_LENGTHS.FIRST_NAME_MIN || firstName.length > FIELD_LENGTHS.FIRST_NAME_MAX) {
-    errors.push({
-      field: 'firstName',
-      message: ERROR_MESSAGES.FIRST_NAME_LENGTH,
-    });
-  }
-
-  return errors;
+export interface UpdateValidationResult {
+  isValid: boolean;
+  errors: ValidationError[];
+  data?: UpdateInvestorInput;
 }
 
 /**
- * Validate last name
+ * Result of validating uploaded files and their per-file fields
  */
-function validateLastName(lastName: string): ValidationError[] {
-  const errors: ValidationError[] = [];
-
-  if (!lastName?.trim()) {
-    errors.push({ field: 'lastName', message: ERROR_MESSAGES.LAST_NAME_REQUIRED });
-    return errors;
-  }
-
-  if (lastName.trim().length < FIELD_LENGTHS.LAST_NAME_MIN || lastName.length > FIELD_LENGTHS.LAST_NAME_MAX) {
-    errors.push({
-      field: 'lastName',
-      message: ERROR_MESSAGES.LAST_NAME_LENGTH,
-    });
-  }
-
-  return errors;
+export interface FilesValidationResult {
+  isValid: boolean;
+  errors: ValidationError[];
+  data?: DocumentRecord[];
 }
 
 /**
- * Validate street address
+ * Fields that may be changed on an existing investor
+ * Files are managed separately and are not part of an update
  */
-function validateStreetAddress(streetAddress: string): ValidationError[] {
-  const errors: ValidationError[] = [];
+const UPDATABLE_FIELDS = [
+  'firstName',
+  'lastName',
+  'dateOfBirth',
+  'phoneNumber',
+  'streetAddress',
+  'state',
+  'zipCode',
+  'country',
+] as const;
+
+type UpdatableField = (typeof UPDATABLE_FIELDS)[number];
 
-  if (!streetAddress?.trim()) {
-    errors.push({
-      field: 'streetAddress',
-      message: ERROR_MESSAGES.STREET_ADDRESS_REQUIRED,
-    });
-    return errors;
-  }
+/**
+ * Read the investor fields from a multipart form
+ * Missing fields are read as empty strings so they fail as required, except
+ * country, which defaults to US as it did before Canadian addresses
+ */
+export function readInvestorFields(
+  formData: FormData
+): Omit<InvestorValidationData, 'files' | 'documents'> {
+  const read = (field: string) => {
+    const value = formData.get(field);
+    return typeof value === 'string' ? value : '';
+  };
 
-  if (streetAddress.trim().length < FIELD_LENGTHS.STREET_ADDRESS_MIN || streetAddress.length > FIELD_LENGTHS.STREET_ADDRESS_MAX) {
-    errors.push({
-      field: 'streetAddress',
-      message: ERROR_MESSAGES.STREET_ADDRESS_LENGTH,
-    });
-  }
+  return {
+    firstName: read('firstName'),
+    lastName: read('lastName'),
+    dateOfBirth: read('dateOfBirth'),
+    phoneNumber: read('phoneNumber'),
+    streetAddress: read('streetAddress'),
+    state: read('state'),
+    zipCode: read('zipCode'),
+    country: formData.get('country') === null ? 'US' : read('country'),
+  };
+}
 
-  return errors;
+/**
+ * Read the per-file fields from a multipart form
+ */
+export function readDocumentFields(formData: FormData): DocumentFields {
+  return {
+    documentType: formData.getAll('documentType') as string[],
+    issueDate: formData.getAll('issueDate') as string[],
+    expiryDate: formData.getAll('expiryDate') as string[],
+  };
 }
 
 /**
- * Validate state code
+ * Check that the per-file fields have one entry per file
+ * The date fields may also be left out entirely
  */
-function validateState(state: string): ValidationError[] {
+function validateDocumentFieldCounts(
+  files: File[],
+  documents: DocumentFields
+): ValidationError[] {
   const errors: ValidationError[] = [];
 
-  if (!state) {
-    errors.push({ field: 'state', message: ERROR_MESSAGES.STATE_REQUIRED });
+  // With no files the schema reports FILES_REQUIRED instead
+  if (files.length === 0) {
     return errors;
   }
 
-  if (state.length !== FIELD_LENGTHS.STATE_LENGTH) {
-    errors.push({
-      field: 'state',
-      message: ERROR_MESSAGES.STATE_LENGTH,
-    });
-    return errors;
-  }
+  for (const field of ['documentType', 'issueDate', 'expiryDate'] as const) {
+    const count = documents[field].length;
+    const optional = field !== 'documentType';
 
-  if (!isValidStateCode(state)) {
-    errors.push({ field: 'state', message: ERROR_MESSAGES.STATE_INVALID });
+    if (count !== files.length && !(optional && count === 0)) {
+      errors.push({
+        field,
+        code: 'DOCUMENT_FIELD_COUNT',
+        message: ERROR_MESSAGES.DOCUMENT_FIELD_COUNT(field),
+      });
+    }
   }
 
   return errors;
 }
 
 /**
- * Validate ZIP code
+ * Pair each file with its per-file fields, matched by position
  */
-function validateZipCode(zipCode: string): ValidationError[] {
-  const errors: ValidationError[] = [];
-
-  if (!zipCode) {
-    errors.push({ field: 'zipCode', message: ERROR_MESSAGES.ZIP_REQUIRED });
-    return errors;
-  }
-
-  if (!ZIP_VALIDATION.REGEX.test(zipCode)) {
-    errors.push({
-      field: 'zipCode',
-      message: ERROR_MESSAGES.ZIP_FORMAT,
-    });
-    return errors;
-  }
-
-  if (!isValidZipRange(zipCode)) {
-    errors.push({
-      field: 'zipCode',
-      message: ERROR_MESSAGES.ZIP_RANGE,
-    });
-  }
+function toDocumentInputs(
+  files: File[],
+  documents: DocumentFields
+): DocumentInput[] {
+  return files.map((file, index) => ({
+    file,
+    documentType: documents.documentType[index],
+    issueDate: documents.issueDate[index] ?? '',
+    expiryDate: documents.expiryDate[index] ?? '',
+  }));
+}
 
-  return errors;
+/**
+ * Convert validated documents into investor_files values
+ */
+function toDocumentRecords(documents: DocumentOutput[]): DocumentRecord[] {
+  return documents.map((document) => ({
+    documentType: document.documentType as DocumentType,
+    issueDate: parseDateOnly(document.issueDate),
+    expiryDate: parseDateOnly(document.expiryDate),
+  }));
 }
 
 /**
- * Validate date of birth and age
+ * Validate files and their per-file fields
+ * kept are the documents the investor keeps; together with the new files
+ * they must satisfy DOCUMENT_REQUIREMENTS and the per-investor limits
  */
-function validateDateOfBirth(dateOfBirth: string): ValidationError[] {
-  const errors: ValidationError[] = [];
+export function validateFiles(
+  files: File[],
+  documents: DocumentFields,
+  kept: readonly KeptDocument[] = []
+): FilesValidationResult {
+  const errors = validateDocumentFieldCounts(files, documents);
 
-  if (!dateOfBirth) {
-    errors.push({ field: 'dateOfBirth', message: ERROR_MESSAGES.DATE_OF_BIRTH_REQUIRED });
-    return errors;
+  if (errors.length > 0) {
+    return { isValid: false, errors };
   }
 
-  const age = calculateAge(dateOfBirth);
+  const result = documentsSchema(kept).safeParse(
+    toDocumentInputs(files, documents)
+  );
 
-  if (age < AGE_CONSTRAINTS.MIN || age > AGE_CONSTRAINTS.MAX) {
-    errors.push({
-      field: 'dateOfBirth',
-      message: ERROR_MESSAGES.AGE_RANGE,
-    });
+  if (!result.success) {
+    return { isValid: false, errors: toValidationErrors(result.error) };
   }
 
-  return errors;
+  return { isValid: true, errors: [], data: toDocumentRecords(result.data) };
 }
 
 /**
- * Validate phone number
+ * Result of checking file contents against their declared types
  */
-function validatePhoneNumber(phoneNumber: string): ValidationError[] {
-  const errors: ValidationError[] = [];
-  const normalized = normalizePhoneNumber(phoneNumber);
-
-  if (!normalized) {
-    errors.push({ field: 'phoneNumber', message: ERROR_MESSAGES.PHONE_REQUIRED });
-    return errors;
-  }
-
-  if (normalized.length !== FIELD_LENGTHS.PHONE_LENGTH) {
-    errors.push({
-      field: 'phoneNumber',
-      message: ERROR_MESSAGES.PHONE_LENGTH,
-    });
-  }
-
-  return errors;
+export interface FileContentValidationResult {
+  errors: ValidationError[];
+  files: File[]; // Re-typed with the detected MIME type
 }
 
 /**
- * Validate files
+ * Verify each file's leading bytes against its declared type
+ * Returned files carry the detected MIME type so it is what gets persisted
  */
-function validateFiles(files: File[]): ValidationError[] {
+export async function verifyFileContents(
+  files: File[]
+): Promise<FileContentValidationResult> {
   const errors: ValidationError[] = [];
-
-  if (!files || files.length === 0) {
-    errors.push({ field: 'files', message: ERROR_MESSAGES.FILES_REQUIRED });
-    return errors;
-  }
+  const verifiedFiles: File[] = [];
 
   for (const file of files) {
-    if (file.size > FILE_VALIDATION.MAX_SIZE) {
-      errors.push({
-        field: 'files',
-        message: ERROR_MESSAGES.FILE_SIZE(file.name),
-      });
-    }
+    const detected = await sniffMimeType(file);
 
-    if (!FILE_VALIDATION.ALLOWED_TYPES.includes(file.type as typeof FILE_VALIDATION.ALLOWED_TYPES[number])) {
+    if (!detected) {
       errors.push({
         field: 'files',
-        message: ERROR_MESSAGES.FILE_TYPE(file.name),
+        code: 'FILE_CONTENT_UNRECOGNIZED',
+        message: ERROR_MESSAGES.FILE_CONTENT_UNRECOGNIZED(file.name),
       });
+      continue;
     }
 
-    if (file.name.length > FILE_VALIDATION.MAX_FILENAME_LENGTH) {
+    if (!mimeTypesMatch(file.type, detected)) {
       errors.push({
         field: 'files',
-        message: ERROR_MESSAGES.FILE_NAME_LENGTH(file.name),
+        code: 'FILE_CONTENT_MISMATCH',
+        message: ERROR_MESSAGES.FILE_CONTENT_MISMATCH(file.name),
       });
+      continue;
     }
 
-    if (file.type.length > FILE_VALIDATION.MAX_MIME_TYPE_LENGTH) {
-      errors.push({
-        field: 'files',
-        message: ERROR_MESSAGES.FILE_MIME_TYPE(file.name),
-      });
-    }
+    verifiedFiles.push(
+      new File([file], file.name, {
+        type: detected,
+        lastModified: file.lastModified,
+      })
+    );
   }
 
-  return errors;
+  return { errors, files: verifiedFiles };
 }
 
 /**
@@ -263,35 +295,142 @@ function validateFiles(files: File[]): ValidationError[] {
 export function validateInvestorData(
   data: InvestorValidationData
 ): ValidationResult {
-  const errors: ValidationError[] = [];
+  const { files, documents, ...fields } = data;
+  const countErrors = validateDocumentFieldCounts(files, documents);
+
+  if (countErrors.length > 0) {
+    // Still report the field errors alongside the mismatched documents
+    const result = investorFieldsSchema.safeParse(fields);
+
+    return {
+      isValid: false,
+      errors: [
+        ...(result.success ? [] : toValidationErrors(result.error)),
+        ...countErrors,
+      ],
+    };
+  }
 
-  // Run all validations
-  errors.push(...validateFirstName(data.firstName));
-  errors.push(...validateLastName(data.lastName));
-  errors.push(...validateStreetAddress(data.streetAddress));
-  errors.push(...validateState(data.state));
-  errors.push(...validateZipCode(data.zipCode));
-  errors.push(...validateDateOfBirth(data.dateOfBirth));
-  errors.push(...validatePhoneNumber(data.phoneNumber));
-  errors.push(...validateFiles(data.files));
-
-  // Return validation result
-  if (errors.length > 0) {
-    return { isValid: false, errors };
+  const result = investorSchema.safeParse({
+    ...fields,
+    documents: toDocumentInputs(files, documents),
+  });
+
+  if (!result.success) {
+    return { isValid: false, errors: toValidationErrors(result.error) };
   }
 
+  const { documents: validated, ...values } = result.data;
+
   return {
     isValid: true,
     errors: [],
     data: {
-      firstName: data.firstName,
-      lastName: data.lastName,
-      dateOfBirth: data.dateOfBirth,
-      phoneNumber: normalizePhoneNumber(data.phoneNumber),
-      streetAddress: data.streetAddress,
-      state: data.state.toUpperCase(),
-      zipCode: data.zipCode,
-      files: data.files,
+      ...values,
+      country: values.country as Country,
+      files: validated.map((document) => document.file),
+      documents: toDocumentRecords(validated),
     },
   };
 }
+
+/**
+ * Validate a partial investor update
+ * Only the provided fields are validated, using the same rules as creation.
+ * A change to any part of the address is checked together with the rest of
+ * the stored address, so e.g. a new ZIP code must suit the stored country.
+ */
+export function validateInvestorUpdate(
+  id: string,
+  data: Record<string, unknown>,
+  current: { country: Country; state: string; zipCode: string }
+): UpdateValidationResult {
+  const errors: ValidationError[] = [];
+
+  for (const field of Object.keys(data)) {
+    if (!UPDATABLE_FIELDS.includes(field as UpdatableField)) {
+      errors.push({
+        field,
+        code: 'FIELD_NOT_UPDATABLE',
+        message: ERROR_MESSAGES.FIELD_NOT_UPDATABLE(field),
+      });
+    }
+  }
+
+  const providedFields = UPDATABLE_FIELDS.filter(
+    (field) => data[field] !== undefined
+  );
+
+  if (providedFields.length === 0 && errors.length === 0) {
+    errors.push({
+      field: 'body',
+      code: 'UPDATE_EMPTY',
+      message: ERROR_MESSAGES.UPDATE_EMPTY,
+    });
+  }
+
+  const values: Partial<Record<UpdatableField, string>> = {};
+
+  for (const field of providedFields) {
+    const value = data[field];
+
+    if (typeof value !== 'string') {
+      errors.push({
+        field,
+        code: 'FIELD_TYPE',
+        message: ERROR_MESSAGES.FIELD_TYPE(field),
+      });
+      continue;
+    }
+
+    values[field] = value;
+  }
+
+  // Absent fields stay absent, so only the provided ones are checked
+  const result = investorChangesSchema.safeParse(values);
+
+  if (!result.success) {
+    errors.push(...toValidationErrors(result.error));
+  }
+
+  if (errors.length > 0 || !result.success) {
+    return { isValid: false, errors };
+  }
+
+  const changes = result.data;
+
+  if (
+    changes.country !== undefined ||
+    changes.state !== undefined ||
+    changes.zipCode !== undefined
+  ) {
+    const address = addressSchema.safeParse({ ...current, ...changes });
+
+    if (!address.success) {
+      return { isValid: false, errors: toValidationErrors(address.error) };
+    }
+  }
+
+  // Normalized the same way as validateInvestorData
+  const { country, ...fields } = changes;
+  const update: UpdateInvestorInput = { id, ...fields };
+
+  if (country !== undefined) update.country = country as Country;
+
+  return { isValid: true, errors: [], data: update };
+}
+
+/**
+ * Group validation errors by field for a 400 response
+ */
+export function toValidationErrorBody(
+  errors: ValidationError[]
+): ValidationErrorBody {
+  const grouped: FieldErrors = {};
+
+  for (const { field, code, message } of errors) {
+    (grouped[field] ??= []).push({ code, message });
+  }
+
+  return { error: errors[0].message, errors: grouped };
+}
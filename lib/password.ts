@@ -0,0 +1,82 @@
+/**
+ * Password hashing with scrypt
+ * Stored format: scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>
+ */
+
+import {
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+  type ScryptOptions,
+} from 'crypto';
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const DEFAULT_PARAMS = { N: 16384, r: 8, p: 1 };
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  options: ScryptOptions
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * Hash a password for storage
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const { N, r, p } = DEFAULT_PARAMS;
+  const key = await deriveKey(password, salt, { N, r, p });
+
+  return [
+    'scrypt',
+    N,
+    r,
+    p,
+    salt.toString('base64'),
+    key.toString('base64'),
+  ].join('$');
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = storedHash.split('$');
+
+  if (scheme !== 'scrypt' || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+let dummyHash: Promise<string> | undefined;
+
+/**
+ * A throwaway hash to verify against when no user matches, so failed logins
+ * take the same time whether or not the email exists
+ */
+export function getDummyPasswordHash(): Promise<string> {
+  if (!dummyHash) {
+    dummyHash = hashPassword(randomBytes(32).toString('base64'));
+  }
+  return dummyHash;
+}
@@ -0,0 +1,219 @@
+/**
+ * Transparent field-level encryption for investor PII
+ *
+ * Date of birth, phone number and street address are encrypted before they
+ * reach the investors table and decrypted when read. phoneNumberHash holds a
+ * blind index so phone lookups can still use idx_investor_phone.
+ *
+ * The database CHECK constraints on these columns cannot inspect ciphertext,
+ * so equivalent rules are enforced here before encryption.
+ */
+
+import { Prisma } from '@prisma/client';
+import {
+  AGE_CONSTRAINTS,
+  FIELD_LENGTHS,
+  calculateAge,
+} from '@/lib/validation-constants';
+import {
+  blindIndex,
+  decryptValue,
+  encryptValue,
+  isEncryptedValue,
+} from '@/lib/encryption';
+
+/**
+ * Application-level equivalent of a database CHECK constraint violation
+ */
+export class CheckConstraintError extends Error {
+  constraint: string;
+
+  constructor(message: string, constraint: string) {
+    super(message);
+    this.name = 'CheckConstraintError';
+    this.constraint = constraint;
+  }
+}
+
+const PHONE_NUMBER_REGEX = /^[0-9]{10}$/;
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Normalize a date of birth to YYYY-MM-DD and enforce chk_date_of_birth_age
+ */
+function checkDateOfBirth(dateOfBirth: string): string {
+  const date = new Date(dateOfBirth);
+
+  if (isNaN(date.getTime())) {
+    throw new CheckConstraintError(
+      'Date of birth must be a valid date.',
+      'chk_date_of_birth_age'
+    );
+  }
+
+  const normalized = DATE_ONLY_REGEX.test(dateOfBirth)
+    ? dateOfBirth
+    : date.toISOString().slice(0, 10);
+  const age = calculateAge(normalized);
+
+  if (age < AGE_CONSTRAINTS.MIN || age > AGE_CONSTRAINTS.MAX) {
+    throw new CheckConstraintError(
+      'Age must be between 18 and 120 years.',
+      'chk_date_of_birth_age'
+    );
+  }
+
+  return normalized;
+}
+
+/**
+ * Enforce chk_phone_number_format
+ */
+function checkPhoneNumber(phoneNumber: string): string {
+  if (!PHONE_NUMBER_REGEX.test(phoneNumber)) {
+    throw new CheckConstraintError(
+      'Phone number must be exactly 10 digits.',
+      'chk_phone_number_format'
+    );
+  }
+
+  return phoneNumber;
+}
+
+/**
+ * Enforce chk_street_address_length
+ */
+function checkStreetAddress(streetAddress: string): string {
+  if (
+    streetAddress.trim().length < FIELD_LENGTHS.STREET_ADDRESS_MIN ||
+    streetAddress.length > FIELD_LENGTHS.STREET_ADDRESS_MAX
+  ) {
+    throw new CheckConstraintError(
+      'Street address must be between 1 and 255 characters.',
+      'chk_street_address_length'
+    );
+  }
+
+  return streetAddress;
+}
+
+/**
+ * Blind index for phone number lookups (normalized 10-digit form)
+ */
+export function phoneNumberBlindIndex(phoneNumber: string): string {
+  return blindIndex(phoneNumber);
+}
+
+/**
+ * Where clause matching investors by phone number via the blind index
+ * phoneNumber must already be normalized to 10 digits
+ */
+export function phoneNumberWhere(
+  phoneNumber: string
+): Prisma.InvestorWhereInput {
+  return { phoneNumberHash: phoneNumberBlindIndex(phoneNumber) };
+}
+
+/**
+ * Decrypt a stored value; values written before encryption are returned as-is
+ */
+export function decryptIfEncrypted(value: string): string {
+  return isEncryptedValue(value) ? decryptValue(value) : value;
+}
+
+/**
+ * Encrypt the PII fields of a single investor write payload
+ * Every string written is treated as plaintext, whatever it looks like: the
+ * write path only ever receives user input, never stored ciphertext
+ */
+export function encryptInvestorFields<T extends Record<string, unknown>>(
+  data: T
+): T {
+  const result: Record<string, unknown> = { ...data };
+
+  if (typeof data.dateOfBirth === 'string') {
+    result.dateOfBirth = encryptValue(checkDateOfBirth(data.dateOfBirth));
+  }
+
+  if (typeof data.phoneNumber === 'string') {
+    const phoneNumber = checkPhoneNumber(data.phoneNumber);
+    result.phoneNumber = encryptValue(phoneNumber);
+    result.phoneNumberHash = phoneNumberBlindIndex(phoneNumber);
+  }
+
+  if (typeof data.streetAddress === 'string') {
+    result.streetAddress = encryptValue(checkStreetAddress(data.streetAddress));
+  }
+
+  return result as T;
+}
+
+/**
+ * Encrypt a write payload that may be a single object or an array (createMany)
+ */
+function encryptWriteData(data: unknown): unknown {
+  if (Array.isArray(data)) {
+    return data.map((item) => encryptWriteData(item));
+  }
+
+  if (data && typeof data === 'object') {
+    return encryptInvestorFields(data as Record<string, unknown>);
+  }
+
+  return data;
+}
+
+/**
+ * Prisma client extension that encrypts on write and decrypts on read
+ */
+export const piiEncryption = Prisma.defineExtension({
+  name: 'pii-encryption',
+  query: {
+    investor: {
+      async $allOperations({ args, query }) {
+        const writeArgs = args as {
+          data?: unknown;
+          create?: unknown;
+          update?: unknown;
+        };
+
+        if (writeArgs.data !== undefined) {
+          writeArgs.data = encryptWriteData(writeArgs.data);
+        }
+
+        // upsert carries separate create and update payloads
+        if (writeArgs.create !== undefined) {
+          writeArgs.create = encryptWriteData(writeArgs.create);
+        }
+
+        if (writeArgs.update !== undefined) {
+          writeArgs.update = encryptWriteData(writeArgs.update);
+        }
+
+        return query(args);
+      },
+    },
+  },
+  result: {
+    investor: {
+      dateOfBirth: {
+        needs: { dateOfBirth: true },
+        compute(investor) {
+          return new Date(decryptIfEncrypted(investor.dateOfBirth));
+        },
+      },
+      phoneNumber: {
+        needs: { phoneNumber: true },
+        compute(investor) {
+          return decryptIfEncrypted(investor.phoneNumber);
+        },
+      },
+      streetAddress: {
+        needs: { streetAddress: true },
+        compute(investor) {
+          return decryptIfEncrypted(investor.streetAddress);
+        },
+      },
+    },
+  },
+});
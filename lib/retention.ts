@@ -0,0 +1,257 @@
+/**
+ * Data retention for soft-deleted investors
+ *
+ * A soft-deleted investor is purged (row, document rows and stored files)
+ * once both periods of the retention policy have passed:
+ *   RETENTION_PURGE_AFTER_DAYS       days since the soft delete (default 30)
+ *   RETENTION_REGULATORY_HOLD_YEARS  years since the record was created
+ *                                    (default 5)
+ * Until then an admin can restore it with POST /api/investors/:id/restore.
+ */
+
+import { db } from '@/lib/db';
+import { iterateByCursor } from '@/lib/db-utils';
+import { getStorage, type StorageBackend } from '@/lib/storage';
+
+export interface RetentionPolicy {
+  purgeAfterDays: number;
+  regulatoryHoldYears: number;
+}
+
+export interface PurgeOptions {
+  dryRun: boolean;
+  batchSize?: number;
+  storage?: StorageBackend;
+  policy?: RetentionPolicy;
+  now?: Date;
+}
+
+export interface PurgeActionResult {
+  type: 'delete-investor' | 'delete-file';
+  target: string;
+  investorId: string;
+  status: 'done' | 'planned' | 'skipped' | 'failed';
+  error?: string;
+}
+
+export interface PurgeReport {
+  startedAt: string;
+  finishedAt: string;
+  dryRun: boolean;
+  policy: RetentionPolicy;
+  cutoffs: {
+    deletedBefore: string;
+    createdBefore: string;
+  };
+  summary: {
+    investorsEligible: number;
+    investorsPurged: number;
+    filesDeleted: number;
+    actionsFailed: number;
+  };
+  actions: PurgeActionResult[];
+}
+
+interface PurgeCandidate {
+  id: string;
+  createdAt: Date;
+  deletedAt: Date | null;
+}
+
+/**
+ * Read a non-negative integer setting from the environment
+ */
+function readPeriod(name: string, fallback: number): number {
+  const value = process.env[name];
+
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+
+  return parseInt(value, 10);
+}
+
+/**
+ * Retention policy from the environment
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  return {
+    purgeAfterDays: readPeriod('RETENTION_PURGE_AFTER_DAYS', 30),
+    regulatoryHoldYears: readPeriod('RETENTION_REGULATORY_HOLD_YEARS', 5),
+  };
+}
+
+/**
+ * End of the regulatory hold for a record created at `createdAt`
+ */
+export function getRegulatoryHoldUntil(
+  createdAt: Date,
+  policy: RetentionPolicy = getRetentionPolicy()
+): Date {
+  const holdUntil = new Date(createdAt);
+  holdUntil.setFullYear(holdUntil.getFullYear() + policy.regulatoryHoldYears);
+  return holdUntil;
+}
+
+/**
+ * Earliest time a soft-deleted investor may be purged
+ */
+export function getPurgeEligibleAt(
+  investor: { createdAt: Date; deletedAt: Date },
+  policy: RetentionPolicy = getRetentionPolicy()
+): Date {
+  const afterDelete = new Date(investor.deletedAt);
+  afterDelete.setDate(afterDelete.getDate() + policy.purgeAfterDays);
+
+  const afterHold = getRegulatoryHoldUntil(investor.createdAt, policy);
+
+  return afterDelete > afterHold ? afterDelete : afterHold;
+}
+
+/**
+ * Permanently remove soft-deleted investors whose retention has expired
+ *
+ * Each investor row is deleted first (its document rows cascade), then its
+ * stored files. A file that cannot be deleted is reported as failed and will
+ * show up as orphaned in `npm run files:reconcile`.
+ */
+export async function purgeDeletedInvestors(
+  options: PurgeOptions
+): Promise<PurgeReport> {
+  const storage = options.storage || getStorage();
+  const policy = options.policy || getRetentionPolicy();
+  const batchSize = options.batchSize ?? 500;
+  const startedAt = new Date();
+  const now = options.now || startedAt;
+
+  const deletedBefore = new Date(now);
+  deletedBefore.setDate(deletedBefore.getDate() - policy.purgeAfterDays);
+
+  const createdBefore = new Date(now);
+  createdBefore.setFullYear(
+    createdBefore.getFullYear() - policy.regulatoryHoldYears
+  );
+
+  const eligible = {
+    deletedAt: { lte: deletedBefore },
+    createdAt: { lte: createdBefore },
+  };
+
+  const actions: PurgeActionResult[] = [];
+  let investorsEligible = 0;
+  let investorsPurged = 0;
+  let filesDeleted = 0;
+
+  for await (const batch of iterateByCursor<PurgeCandidate>(
+    'investor',
+    batchSize,
+    eligible
+  )) {
+    const files = await db.investorFile.findMany({
+      where: { investorId: { in: batch.map((investor) => investor.id) } },
+      select: { id: true, investorId: true, filePath: true },
+    });
+
+    for (const investor of batch) {
+      investorsEligible++;
+
+      const investorFiles = files.filter(
+        (file) => file.investorId === investor.id
+      );
+
+      if (options.dryRun) {
+        actions.push({
+          type: 'delete-investor',
+          target: investor.id,
+          investorId: investor.id,
+          status: 'planned',
+        });
+
+        for (const file of investorFiles) {
+          actions.push({
+            type: 'delete-file',
+            target: file.filePath,
+            investorId: investor.id,
+            status: 'planned',
+          });
+        }
+        continue;
+      }
+
+      // Re-check eligibility in the delete itself in case the investor was
+      // restored after this batch was read
+      let purged: boolean;
+
+      try {
+        const result = await db.investor.deleteMany({
+          where: { id: investor.id, ...eligible },
+        });
+        purged = result.count > 0;
+      } catch (error) {
+        actions.push({
+          type: 'delete-investor',
+          target: investor.id,
+          investorId: investor.id,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      actions.push({
+        type: 'delete-investor',
+        target: investor.id,
+        investorId: investor.id,
+        status: purged ? 'done' : 'skipped',
+      });
+
+      if (!purged) continue;
+
+      investorsPurged++;
+
+      for (const file of investorFiles) {
+        try {
+          await storage.delete(file.filePath);
+          filesDeleted++;
+          actions.push({
+            type: 'delete-file',
+            target: file.filePath,
+            investorId: investor.id,
+            status: 'done',
+          });
+        } catch (error) {
+          actions.push({
+            type: 'delete-file',
+            target: file.filePath,
+            investorId: investor.id,
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    dryRun: options.dryRun,
+    policy,
+    cutoffs: {
+      deletedBefore: deletedBefore.toISOString(),
+      createdBefore: createdBefore.toISOString(),
+    },
+    summary: {
+      investorsEligible,
+      investorsPurged,
+      filesDeleted,
+      actionsFailed: actions.filter((action) => action.status === 'failed')
+        .length,
+    },
+    actions,
+  };
+}
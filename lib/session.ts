@@ -0,0 +1,102 @@
+/**
+ * Session tokens (HS256 JWTs signed with JWT_SECRET)
+ *
+ * Kept free of database imports so proxy.ts can verify tokens before a
+ * request reaches a route handler. Tokens are read from the session cookie
+ * set by /api/auth/login, or from an `Authorization: Bearer` header for API
+ * clients.
+ */
+
+import { SignJWT, jwtVerify } from 'jose';
+import type { NextRequest } from 'next/server';
+import type { UserRole } from '@prisma/client';
+
+export const SESSION_COOKIE = 'session';
+export const SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+const ISSUER = 'investor-information-system';
+const USER_ROLES: readonly UserRole[] = [
+  'applicant',
+  'reviewer',
+  'admin',
+  'auditor',
+];
+
+export interface SessionClaims {
+  userId: string;
+  role: UserRole;
+}
+
+function getSecret(): Uint8Array {
+  const secret = process.env.JWT_SECRET;
+
+  if (!secret || secret.length < 32) {
+    throw new Error('JWT_SECRET must be set to at least 32 characters');
+  }
+
+  return new TextEncoder().encode(secret);
+}
+
+/**
+ * Issue a signed session token
+ */
+export async function createSessionToken(
+  claims: SessionClaims
+): Promise<string> {
+  return new SignJWT({ role: claims.role })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(claims.userId)
+    .setIssuer(ISSUER)
+    .setIssuedAt()
+    .setExpirationTime(`${SESSION_TTL_SECONDS}s`)
+    .sign(getSecret());
+}
+
+/**
+ * Verify a session token; returns null if it is invalid or expired
+ */
+export async function verifySessionToken(
+  token: string
+): Promise<SessionClaims | null> {
+  try {
+    const { payload } = await jwtVerify(token, getSecret(), {
+      issuer: ISSUER,
+      algorithms: ['HS256'],
+    });
+    const role = payload.role as UserRole;
+
+    if (!payload.sub || !USER_ROLES.includes(role)) {
+      return null;
+    }
+
+    return { userId: payload.sub, role };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the session token from a request
+ */
+export function getRequestToken(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization');
+
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  return request.cookies.get(SESSION_COOKIE)?.value ?? null;
+}
+
+/**
+ * Cookie options for the session cookie
+ */
+export function sessionCookieOptions(maxAge: number = SESSION_TTL_SECONDS) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Soft delete for investors
+ *
+ * Deleting an investor through the API only sets deletedAt; the row and its
+ * documents stay in place until the retention purge (lib/retention.ts)
+ * removes them. This extension hides soft-deleted investors from every read
+ * and update made through the db client.
+ *
+ * A query that filters on deletedAt itself (e.g. `{ deletedAt: { not: null } }`
+ * to restore, a purge cutoff, or INCLUDE_DELETED) is passed through unchanged.
+ * Relations loaded from other models, and raw SQL, must filter on deleted_at
+ * themselves.
+ */
+
+import { Prisma } from '@prisma/client';
+
+/**
+ * Operations that receive the `deletedAt: null` filter
+ * Deletes are left alone so a hard delete is always explicit
+ */
+const FILTERED_OPERATIONS: ReadonlySet<string> = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+]);
+
+/**
+ * Spread into an investor where clause to also match soft-deleted investors
+ */
+export const INCLUDE_DELETED = {
+  deletedAt: undefined,
+} satisfies Prisma.InvestorWhereInput;
+
+/**
+ * InvestorFile filter that excludes documents of soft-deleted investors
+ */
+export const ACTIVE_INVESTOR_FILE_WHERE = {
+  investor: { deletedAt: null },
+} satisfies Prisma.InvestorFileWhereInput;
+
+export const softDelete = Prisma.defineExtension({
+  name: 'soft-delete',
+  query: {
+    investor: {
+      async $allOperations({ operation, args, query }) {
+        if (FILTERED_OPERATIONS.has(operation)) {
+          const filteredArgs = (args ?? {}) as {
+            where?: Record<string, unknown>;
+          };
+
+          if (!filteredArgs.where || !('deletedAt' in filteredArgs.where)) {
+            filteredArgs.where = { ...filteredArgs.where, deletedAt: null };
+          }
+
+          return query(filteredArgs as typeof args);
+        }
+
+        return query(args);
+      },
+    },
+  },
+});
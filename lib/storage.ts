@@ -0,0 +1,431 @@
+/**
+ * Storage backends for uploaded investor documents
+ * InvestorFile.filePath holds a backend-neutral storage key; the configured
+ * backend decides where the bytes actually live
+ */
+
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readdir, realpath, rename, stat, unlink } from 'fs/promises';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { dirname, join, relative, resolve, sep } from 'path';
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  CopyObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+export interface StorageObjectStat {
+  size: number;
+  lastModified: Date;
+}
+
+export interface StorageObjectInfo extends StorageObjectStat {
+  key: string;
+}
+
+export interface StoragePutOptions {
+  contentType?: string;
+}
+
+/**
+ * Operations every storage backend must support
+ */
+export interface StorageBackend {
+  put(key: string, body: Readable, options?: StoragePutOptions): Promise<void>;
+  getStream(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>; // No-op when the key does not exist
+  move(fromKey: string, toKey: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  stat(key: string): Promise<StorageObjectStat | null>;
+  list(prefix?: string): AsyncIterable<StorageObjectInfo>;
+}
+
+/**
+ * Error raised for invalid keys or objects that cannot be found
+ */
+export class StorageError extends Error {
+  code: 'INVALID_KEY' | 'NOT_FOUND';
+
+  constructor(message: string, code: StorageError['code']) {
+    super(message);
+    this.name = 'StorageError';
+    this.code = code;
+  }
+}
+
+const STORAGE_KEY_REGEX = /^[A-Za-z0-9._-]+(\/[A-Za-z0-9._-]+)*$/;
+
+/**
+ * Reject keys that could be interpreted as paths outside the backend root
+ */
+export function assertValidStorageKey(key: string): void {
+  if (
+    !STORAGE_KEY_REGEX.test(key) ||
+    key.split('/').some((segment) => segment === '.' || segment === '..')
+  ) {
+    throw new StorageError(`Invalid storage key: ${key}`, 'INVALID_KEY');
+  }
+}
+
+/**
+ * Local filesystem backend
+ * Keys map to files below the root directory and can never resolve outside it
+ */
+export class LocalStorageBackend implements StorageBackend {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = resolve(process.cwd(), rootDir);
+  }
+
+  private resolveKey(key: string): string {
+    assertValidStorageKey(key);
+
+    const absolutePath = resolve(this.rootDir, key);
+
+    if (!absolutePath.startsWith(this.rootDir + sep)) {
+      throw new StorageError(`Invalid storage key: ${key}`, 'INVALID_KEY');
+    }
+
+    return absolutePath;
+  }
+
+  /**
+   * Resolve an existing file, following symlinks, and confirm it is still
+   * inside the root directory
+   */
+  private async resolveExisting(key: string): Promise<string | null> {
+    const absolutePath = this.resolveKey(key);
+
+    try {
+      const [root, target] = await Promise.all([
+        realpath(this.rootDir),
+        realpath(absolutePath),
+      ]);
+
+      if (!target.startsWith(root + sep)) {
+        console.error(`Blocked access outside storage root: ${key}`);
+        return null;
+      }
+
+      return target;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async put(key: string, body: Readable): Promise<void> {
+    const absolutePath = this.resolveKey(key);
+
+    await mkdir(dirname(absolutePath), { recursive: true });
+    await pipeline(body, createWriteStream(absolutePath));
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    const absolutePath = await this.resolveExisting(key);
+
+    if (!absolutePath) {
+      throw new StorageError(`Object not found: ${key}`, 'NOT_FOUND');
+    }
+
+    return createReadStream(
+      absolutePath,
+      range ? { start: range.start, end: range.end } : undefined
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    const fromPath = this.resolveKey(fromKey);
+    const toPath = this.resolveKey(toKey);
+
+    await mkdir(dirname(toPath), { recursive: true });
+    await rename(fromPath, toPath);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== null;
+  }
+
+  async stat(key: string): Promise<StorageObjectStat | null> {
+    const absolutePath = await this.resolveExisting(key);
+
+    if (!absolutePath) {
+      return null;
+    }
+
+    const fileStats = await stat(absolutePath);
+
+    if (!fileStats.isFile()) {
+      return null;
+    }
+
+    return { size: fileStats.size, lastModified: fileStats.mtime };
+  }
+
+  async *list(prefix: string = ''): AsyncIterable<StorageObjectInfo> {
+    yield* this.walk(this.rootDir, prefix);
+  }
+
+  private async *walk(
+    directory: string,
+    prefix: string
+  ): AsyncIterable<StorageObjectInfo> {
+    let entries;
+
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      // Skip dotfiles such as .gitkeep; uploaded keys never start with a dot
+      if (entry.name.startsWith('.')) continue;
+
+      const absolutePath = join(directory, entry.name);
+      const key = relative(this.rootDir, absolutePath).split(sep).join('/');
+
+      if (entry.isDirectory()) {
+        yield* this.walk(absolutePath, prefix);
+      } else if (entry.isFile() && key.startsWith(prefix)) {
+        const fileStats = await stat(absolutePath);
+        yield { key, size: fileStats.size, lastModified: fileStats.mtime };
+      }
+    }
+  }
+}
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO
+  forcePathStyle?: boolean;
+  keyPrefix?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+/**
+ * S3-compatible backend (AWS S3, MinIO, R2, ...)
+ */
+export class S3StorageBackend implements StorageBackend {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly keyPrefix: string;
+
+  constructor(config: S3StorageConfig) {
+    this.bucket = config.bucket;
+    this.keyPrefix = config.keyPrefix
+      ? `${config.keyPrefix.replace(/\/+$/, '')}/`
+      : '';
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials:
+        config.accessKeyId && config.secretAccessKey
+          ? {
+              accessKeyId: config.accessKeyId,
+              secretAccessKey: config.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  private objectKey(key: string): string {
+    assertValidStorageKey(key);
+    return `${this.keyPrefix}${key}`;
+  }
+
+  async put(
+    key: string,
+    body: Readable,
+    options: StoragePutOptions = {}
+  ): Promise<void> {
+    // Multipart upload handles streams of unknown length
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Body: body,
+        ContentType: options.contentType,
+      },
+    });
+
+    await upload.done();
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const result = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: this.objectKey(key),
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        })
+      );
+
+      return result.Body as Readable;
+    } catch (error) {
+      if (isS3NotFound(error)) {
+        throw new StorageError(`Object not found: ${key}`, 'NOT_FOUND');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 deletes are idempotent
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) })
+    );
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    // S3 has no rename; copy then remove the source
+    await this.client.send(
+      new CopyObjectCommand({
+        Bucket: this.bucket,
+        CopySource: `${this.bucket}/${this.objectKey(fromKey)}`,
+        Key: this.objectKey(toKey),
+      })
+    );
+    await this.delete(fromKey);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== null;
+  }
+
+  async stat(key: string): Promise<StorageObjectStat | null> {
+    try {
+      const result = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) })
+      );
+
+      return {
+        size: result.ContentLength ?? 0,
+        lastModified: result.LastModified ?? new Date(0),
+      };
+    } catch (error) {
+      if (isS3NotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async *list(prefix: string = ''): AsyncIterable<StorageObjectInfo> {
+    let continuationToken: string | undefined;
+
+    do {
+      const result = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: `${this.keyPrefix}${prefix}`,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      for (const object of result.Contents ?? []) {
+        if (!object.Key) continue;
+
+        yield {
+          key: object.Key.slice(this.keyPrefix.length),
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? new Date(0),
+        };
+      }
+
+      continuationToken = result.IsTruncated
+        ? result.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+  }
+}
+
+/**
+ * Detect S3 "no such key" errors across GetObject and HeadObject
+ */
+function isS3NotFound(error: unknown): boolean {
+  const s3Error = error as {
+    name?: string;
+    $metadata?: { httpStatusCode?: number };
+  };
+
+  return (
+    s3Error?.name === 'NoSuchKey' ||
+    s3Error?.name === 'NotFound' ||
+    s3Error?.$metadata?.httpStatusCode === 404
+  );
+}
+
+/**
+ * Build the storage backend selected by environment configuration
+ * STORAGE_BACKEND=local (default) stores files under UPLOAD_DIR;
+ * STORAGE_BACKEND=s3 uses AWS_S3_BUCKET and optional S3_ENDPOINT
+ */
+export function createStorageBackendFromEnv(): StorageBackend {
+  const backend = process.env.STORAGE_BACKEND || 'local';
+
+  if (backend === 'local') {
+    return new LocalStorageBackend(process.env.UPLOAD_DIR || './uploads');
+  }
+
+  if (backend === 's3') {
+    const bucket = process.env.AWS_S3_BUCKET;
+
+    if (!bucket) {
+      throw new Error('AWS_S3_BUCKET environment variable is not set');
+    }
+
+    return new S3StorageBackend({
+      bucket,
+      region: process.env.AWS_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      keyPrefix: process.env.S3_KEY_PREFIX || undefined,
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+    });
+  }
+
+  throw new Error(`Unsupported STORAGE_BACKEND "${backend}"`);
+}
+
+let storageBackend: StorageBackend | undefined;
+
+/**
+ * Shared storage backend instance
+ */
+export function getStorage(): StorageBackend {
+  if (!storageBackend) {
+    storageBackend = createStorageBackendFromEnv();
+  }
+  return storageBackend;
+}
@@ -3,15 +3,73 @@
  * Single source of truth for validation across front-end and back-end
  */
 
+import type { Country, DocumentType, InvestorStatus } from '@prisma/client';
+
+/**
+ * Countries an investor's address can be in, in form order
+ */
+export const COUNTRIES = ['US', 'CA'] as const satisfies readonly Country[];
+
+export const COUNTRY_LABELS: Record<Country, string> = {
+  US: 'United States',
+  CA: 'Canada',
+};
+
 /**
  * US States for validation and dropdown selection
  */
 export const US_STATES_LIST = [
-  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'FL', 'GA',
-  'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD',
-  'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ',
-  'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC',
-  'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY', 'DC',
+  'AL',
+  'AK',
+  'AZ',
+  'AR',
+  'CA',
+  'CO',
+  'CT',
+  'DE',
+  'FL',
+  'GA',
+  'HI',
+  'ID',
+  'IL',
+  'IN',
+  'IA',
+  'KS',
+  'KY',
+  'LA',
+  'ME',
+  'MD',
+  'MA',
+  'MI',
+  'MN',
+  'MS',
+  'MO',
+  'MT',
+  'NE',
+  'NV',
+  'NH',
+  'NJ',
+  'NM',
+  'NY',
+  'NC',
+  'ND',
+  'OH',
+  'OK',
+  'OR',
+  'PA',
+  'RI',
+  'SC',
+  'SD',
+  'TN',
+  'TX',
+  'UT',
+  'VT',
+  'VA',
+  'WA',
+  'WV',
+  'WI',
+  'WY',
+  'DC',
 ] as const;
 
 /**
@@ -71,6 +129,67 @@ export const US_STATES = [
   { value: 'DC', label: 'District of Columbia' },
 ] as const;
 
+/**
+ * Canadian provinces and territories for validation and dropdown selection
+ * Stored in the state column when the country is CA
+ */
+export const CA_PROVINCES_LIST = [
+  'AB',
+  'BC',
+  'MB',
+  'NB',
+  'NL',
+  'NS',
+  'NT',
+  'NU',
+  'ON',
+  'PE',
+  'QC',
+  'SK',
+  'YT',
+] as const;
+
+/**
+ * Canadian provinces and territories with labels for form dropdowns
+ */
+export const CA_PROVINCES = [
+  { value: 'AB', label: 'Alberta' },
+  { value: 'BC', label: 'British Columbia' },
+  { value: 'MB', label: 'Manitoba' },
+  { value: 'NB', label: 'New Brunswick' },
+  { value: 'NL', label: 'Newfoundland and Labrador' },
+  { value: 'NS', label: 'Nova Scotia' },
+  { value: 'NT', label: 'Northwest Territories' },
+  { value: 'NU', label: 'Nunavut' },
+  { value: 'ON', label: 'Ontario' },
+  { value: 'PE', label: 'Prince Edward Island' },
+  { value: 'QC', label: 'Quebec' },
+  { value: 'SK', label: 'Saskatchewan' },
+  { value: 'YT', label: 'Yukon' },
+] as const;
+
+/**
+ * Region dropdown and postal code labels for each country
+ */
+export const ADDRESS_FORMATS = {
+  US: {
+    regions: US_STATES,
+    regionLabel: 'State',
+    regionPrompt: 'Select a state',
+    postalCodeLabel: 'ZIP Code',
+    postalCodePlaceholder: '12345',
+    postalCodeHint: 'US ZIP: 12345 or 12345-6789',
+  },
+  CA: {
+    regions: CA_PROVINCES,
+    regionLabel: 'Province / Territory',
+    regionPrompt: 'Select a province or territory',
+    postalCodeLabel: 'Postal Code',
+    postalCodePlaceholder: 'A1A 1A1',
+    postalCodeHint: 'Canadian postal code: A1A 1A1',
+  },
+} as const satisfies Record<Country, unknown>;
+
 /**
  * File upload constraints
  */
@@ -85,6 +204,62 @@ export const FILE_VALIDATION = {
   MAX_FILENAME_LENGTH: 255,
   MAX_MIME_TYPE_LENGTH: 100,
   MAX_PATH_LENGTH: 500,
+  MAX_FILES_PER_INVESTOR: 10,
+  MAX_TOTAL_SIZE_PER_INVESTOR: 15 * 1024 * 1024, // 15MB in bytes
+} as const;
+
+/**
+ * Document types an upload can be tagged with, in form order
+ */
+export const DOCUMENT_TYPES = [
+  'government_id_front',
+  'government_id_back',
+  'passport',
+  'proof_of_address',
+  'accreditation_letter',
+  'other',
+] as const satisfies readonly DocumentType[];
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  government_id_front: 'Government ID (front)',
+  government_id_back: 'Government ID (back)',
+  passport: 'Passport',
+  proof_of_address: 'Proof of address',
+  accreditation_letter: 'Accreditation letter',
+  other: 'Other',
+};
+
+/**
+ * A document an investor must provide
+ * Satisfied when every type in any one of the anyOf sets has been uploaded
+ */
+export interface DocumentRequirement {
+  label: string;
+  anyOf: readonly (readonly DocumentType[])[];
+}
+
+/**
+ * Required documents, checked on submission and whenever documents change
+ */
+export const DOCUMENT_REQUIREMENTS: readonly DocumentRequirement[] = [
+  {
+    label: 'Photo ID',
+    anyOf: [['passport'], ['government_id_front', 'government_id_back']],
+  },
+  {
+    label: 'Proof of address',
+    anyOf: [['proof_of_address']],
+  },
+];
+
+/**
+ * Issue and expiry dates on uploaded documents
+ */
+export const DOCUMENT_DATE_VALIDATION = {
+  REGEX: /^\d{4}-\d{2}-\d{2}$/,
+  // Default look-ahead for the expiring documents report
+  DEFAULT_EXPIRY_WARNING_DAYS: 30,
+  MAX_EXPIRY_WARNING_DAYS: 365,
 } as const;
 
 /**
@@ -114,7 +289,8 @@ export const AGE_CONSTRAINTS = {
  */
 export const PHONE_VALIDATION = {
   // US/Canada format: optional country code, area code 2-9, exchange 2-9
-  REGEX: /^(\+?1[-.\s]?)?\(?([2-9][0-9]{2})\)?[-.\s]?([2-9][0-9]{2})[-.\s]?([0-9]{4})$/,
+  REGEX:
+    /^(\+?1[-.\s]?)?\(?([2-9][0-9]{2})\)?[-.\s]?([2-9][0-9]{2})[-.\s]?([0-9]{4})$/,
   FORMAT_EXAMPLE: '1-951-526-3834 or (951) 526-3834',
 } as const;
 
@@ -129,6 +305,69 @@ export const ZIP_VALIDATION = {
   FORMAT_EXAMPLE: '12345 or 12345-6789',
 } as const;
 
+/**
+ * Canadian postal code validation
+ */
+export const POSTAL_CODE_VALIDATION = {
+  // A1A 1A1; D, F, I, O, Q and U are never used, and W and Z never first
+  REGEX: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/,
+  FORMAT_EXAMPLE: 'A1A 1A1',
+} as const;
+
+/**
+ * Investor list search and pagination constraints
+ */
+export const SEARCH_VALIDATION = {
+  DEFAULT_PAGE: 1,
+  DEFAULT_PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 100,
+  MAX_QUERY_LENGTH: 100,
+  // dateOfBirth is encrypted at rest and cannot be sorted in the database
+  SORT_FIELDS: [
+    'firstName',
+    'lastName',
+    'state',
+    'status',
+    'createdAt',
+  ] as const,
+  SORT_ORDERS: ['asc', 'desc'] as const,
+  DEFAULT_SORT_BY: 'createdAt',
+  DEFAULT_SORT_ORDER: 'desc',
+  PAGINATION_MODES: ['offset', 'cursor'] as const,
+  DEFAULT_PAGINATION_MODE: 'offset',
+} as const;
+
+/**
+ * Investor review statuses, in workflow order (see lib/investor-status.ts)
+ */
+export const INVESTOR_STATUSES = [
+  'submitted',
+  'in_review',
+  'approved',
+  'rejected',
+  'needs_more_info',
+] as const satisfies readonly InvestorStatus[];
+
+export const STATUS_NOTE_MAX_LENGTH = 2000;
+
+/**
+ * Identifier validation
+ */
+export const ID_VALIDATION = {
+  // Canonical UUID format used for investor and file primary keys
+  UUID_REGEX: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+} as const;
+
+/**
+ * Account constraints
+ */
+export const AUTH_VALIDATION = {
+  EMAIL_MAX_LENGTH: 255,
+  EMAIL_REGEX: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  PASSWORD_MIN_LENGTH: 12,
+  PASSWORD_MAX_LENGTH: 128,
+} as const;
+
 /**
  * Validation error messages
  */
@@ -138,38 +377,229 @@ export const ERROR_MESSAGES = {
   LAST_NAME_REQUIRED: 'Last name is required',
   LAST_NAME_LENGTH: 'Last name must be between 1 and 100 characters',
   DATE_OF_BIRTH_REQUIRED: 'Date of birth is required',
+  DATE_OF_BIRTH_INVALID:
+    'Date of birth must be a valid date in YYYY-MM-DD format',
   AGE_RANGE: 'Age must be between 18 and 120 years',
   PHONE_REQUIRED: 'Phone number is required',
   PHONE_INVALID: `Invalid phone number. Format: ${PHONE_VALIDATION.FORMAT_EXAMPLE}`,
-  PHONE_LENGTH: 'Phone number must be exactly 10 digits',
   STREET_ADDRESS_REQUIRED: 'Street address is required',
   STREET_ADDRESS_LENGTH: 'Street address must be between 1 and 255 characters',
   STATE_REQUIRED: 'State is required',
   STATE_LENGTH: 'State must be a valid 2-letter state code',
   STATE_INVALID: 'Invalid US state code',
+  PROVINCE_REQUIRED: 'Province or territory is required',
+  PROVINCE_INVALID: 'Invalid Canadian province or territory code',
+  COUNTRY_REQUIRED: 'Country is required',
+  COUNTRY_INVALID: 'Country must be US or CA',
   ZIP_REQUIRED: 'ZIP code is required',
   ZIP_FORMAT: `Invalid ZIP code format. Must be ${ZIP_VALIDATION.FORMAT_EXAMPLE}`,
   ZIP_RANGE: `ZIP code must be a valid US ZIP code (00501-99950)`,
+  POSTAL_CODE_REQUIRED: 'Postal code is required',
+  POSTAL_CODE_FORMAT: `Invalid postal code format. Must be ${POSTAL_CODE_VALIDATION.FORMAT_EXAMPLE}`,
   FILES_REQUIRED: 'At least one document is required',
-  FILE_SIZE: (filename: string) => `File "${filename}" exceeds maximum allowed size (3MB)`,
-  FILE_TYPE: (filename: string) => `File "${filename}" has invalid type. Only PDF, JPG, and PNG are allowed`,
-  FILE_NAME_LENGTH: (filename: string) => `File name "${filename}" is too long. Maximum 255 characters allowed.`,
-  FILE_MIME_TYPE: (filename: string) => `File "${filename}" has an invalid mime type.`,
-  FILE_PATH_LENGTH: (filename: string) => `File name "${filename}" results in a path that is too long. Please use a shorter filename.`,
+  FILE_SIZE: (filename: string) =>
+    `File "${filename}" exceeds maximum allowed size (3MB)`,
+  FILE_TYPE: (filename: string) =>
+    `File "${filename}" has invalid type. Only PDF, JPG, and PNG are allowed`,
+  FILE_NAME_LENGTH: (filename: string) =>
+    `File name "${filename}" is too long. Maximum 255 characters allowed.`,
+  FILE_MIME_TYPE: (filename: string) =>
+    `File "${filename}" has an invalid mime type.`,
+  FILE_CONTENT_UNRECOGNIZED: (filename: string) =>
+    `File "${filename}" is not a valid PDF, JPG, or PNG file`,
+  FILE_CONTENT_MISMATCH: (filename: string) =>
+    `File "${filename}" content does not match its declared type`,
+  FILE_CONTENTS_INVALID: 'File contents do not match a PDF, JPG, or PNG file',
+  FILE_PATH_LENGTH: (filename: string) =>
+    `File name "${filename}" results in a path that is too long. Please use a shorter filename.`,
+  FILE_COUNT_LIMIT: 'An investor can have at most 10 documents',
+  FILE_TOTAL_SIZE_LIMIT:
+    "Total size of an investor's documents cannot exceed 15MB",
+  FILE_LAST_DOCUMENT: 'An investor must keep at least one document',
+  FILE_REPLACE_NOT_FOUND: (fileId: string) =>
+    `Document "${fileId}" does not belong to this investor`,
+  DOCUMENT_FIELD_COUNT: (field: string) => `Send one ${field} entry per file`,
+  DOCUMENT_DATE_INVALID: (field: string, filename: string) =>
+    `${field} for "${filename}" must be a valid date in YYYY-MM-DD format`,
+  DOCUMENT_ISSUE_DATE_FUTURE: (filename: string) =>
+    `Issue date for "${filename}" cannot be in the future`,
+  DOCUMENT_EXPIRED: (filename: string) =>
+    `Document "${filename}" has expired; please upload a current one`,
+  DOCUMENT_EXPIRY_BEFORE_ISSUE: (filename: string) =>
+    `Expiry date for "${filename}" must be after its issue date`,
+  EXPIRY_WINDOW_INVALID: 'withinDays must be an integer between 0 and 365',
+  DOCUMENT_TYPE_INVALID: (filename: string) =>
+    `File "${filename}" has an invalid document type. Must be one of government_id_front, government_id_back, passport, proof_of_address, accreditation_letter, other`,
+  DOCUMENT_REQUIRED: (label: string, options: string) =>
+    `${label} is required: upload ${options}`,
+  UPDATE_EMPTY: 'At least one field must be provided for an update',
+  FIELD_TYPE: (field: string) => `Field "${field}" must be a string`,
+  FIELD_NOT_UPDATABLE: (field: string) => `Field "${field}" cannot be updated`,
+  FIELD_INVALID: (field: string) => `Field "${field}" is invalid`,
+  SEARCH_STATE_INVALID: 'state must be a US state or Canadian province code',
+  SEARCH_QUERY_LENGTH: 'Search query must be 100 characters or less',
+  SEARCH_DATE_INVALID: (field: string) =>
+    `Parameter "${field}" must be a valid date`,
+  SEARCH_DATE_RANGE: 'startDate must be on or before endDate',
+  SEARCH_PAGE_INVALID: 'page must be a positive integer',
+  SEARCH_PAGE_SIZE_INVALID: 'pageSize must be an integer between 1 and 100',
+  SEARCH_SORT_BY_INVALID:
+    'sortBy must be one of firstName, lastName, state, status, createdAt',
+  SEARCH_SORT_ORDER_INVALID: 'sortOrder must be asc or desc',
+  SEARCH_PAGINATION_INVALID: 'pagination must be offset or cursor',
+  SEARCH_CURSOR_SORT: 'Cursor pagination only supports sortBy=createdAt',
+  SEARCH_CURSOR_PAGE: 'page cannot be combined with cursor pagination',
+  SEARCH_LIMIT_INVALID: 'limit must be an integer between 1 and 100',
+  INVESTOR_ID_INVALID: 'investorId must be a valid UUID',
+  ACTOR_ID_INVALID: 'actorId must be a valid UUID',
+  AUDIT_ACTION_INVALID:
+    'action must be one of create, read, update, delete, download, export, erase',
+  ERASURE_REFERENCE_LENGTH: 'reference must be 100 characters or less',
+  ERASURE_OVERRIDE_TYPE: 'overrideRegulatoryHold must be a boolean',
+  ERASURE_REGULATORY_HOLD: (until: string) =>
+    `This record is under regulatory hold until ${until}; set overrideRegulatoryHold to erase it anyway`,
+  AUTH_EMAIL_INVALID: 'Please enter a valid email address',
+  AUTH_PASSWORD_LENGTH: 'Password must be between 12 and 128 characters',
+  AUTH_INVALID_CREDENTIALS: 'Invalid email or password',
+  AUTH_REQUIRED: 'Authentication required',
+  AUTH_FORBIDDEN: 'You do not have permission to perform this action',
+  INVESTOR_ALREADY_LINKED: 'Your account already has an investor record',
+  INVESTOR_LOCKED: 'This record is under review and can no longer be changed',
+  STATUS_INVALID:
+    'status must be one of submitted, in_review, approved, rejected, needs_more_info',
+  STATUS_NOTE_LENGTH: 'note must be 2000 characters or less',
+  STATUS_NOTE_REQUIRED: (status: string) =>
+    `A note is required when moving an investor to ${status}`,
+  STATUS_TRANSITION_INVALID: (from: string, to: string) =>
+    `Cannot move an investor from ${from} to ${to}`,
+  STATUS_CHANGED:
+    'The investor status was changed by someone else; reload and try again',
+  DUPLICATE_INVESTOR:
+    'An investor with matching details has already been submitted',
+  MERGE_SOURCE_INVALID: 'sourceId must be the UUID of another investor',
+  MERGE_SOURCE_NOT_FOUND: 'The investor to merge was not found',
+  MERGE_BOTH_LINKED:
+    'Both investors belong to applicant accounts, so they cannot be merged',
+  MERGE_FILE_LIMIT:
+    'Together the two investors have more than 10 documents or 15MB of documents; remove some before merging',
+  INVESTOR_MERGED:
+    'This investor was merged into another record and cannot be restored',
+  IDEMPOTENCY_KEY_INVALID:
+    'Idempotency-Key must be 1 to 255 printable characters without spaces',
+  IDEMPOTENCY_KEY_IN_PROGRESS:
+    'A request with this Idempotency-Key is still being processed; retry shortly',
+  IDEMPOTENCY_KEY_REUSED:
+    'This Idempotency-Key was already used for a different submission',
+  FORM_FIELD_ERRORS: 'Please correct the highlighted fields',
 } as const;
 
+/**
+ * Stable, machine-readable code for each error message
+ * API validation errors carry the code alongside the message
+ */
+export type ErrorCode = keyof typeof ERROR_MESSAGES;
+
+/**
+ * Validation errors grouped by field, as returned in a 400 response
+ */
+export type FieldErrors = Record<
+  string,
+  Array<{ code: ErrorCode; message: string }>
+>;
+
+/**
+ * Helper function to check if a document type is valid
+ */
+export function isValidDocumentType(type: string): type is DocumentType {
+  return DOCUMENT_TYPES.includes(type as DocumentType);
+}
+
+/**
+ * Helper function to list the requirements a set of document types misses
+ */
+export function getMissingDocumentRequirements(
+  types: readonly string[]
+): DocumentRequirement[] {
+  return DOCUMENT_REQUIREMENTS.filter(
+    (requirement) =>
+      !requirement.anyOf.some((set) =>
+        set.every((type) => types.includes(type))
+      )
+  );
+}
+
+/**
+ * Helper function to describe how a requirement can be satisfied
+ * e.g. "Passport, or Government ID (front) and Government ID (back)"
+ */
+export function describeDocumentRequirement(
+  requirement: DocumentRequirement
+): string {
+  return requirement.anyOf
+    .map((set) => set.map((type) => DOCUMENT_TYPE_LABELS[type]).join(' and '))
+    .join(', or ');
+}
+
 /**
  * Helper function to check if a state code is valid
  */
 export function isValidStateCode(state: string): boolean {
-  return US_STATES_LIST.includes(state.toUpperCase() as typeof US_STATES_LIST[number]);
+  return US_STATES_LIST.includes(
+    state.toUpperCase() as (typeof US_STATES_LIST)[number]
+  );
+}
+
+/**
+ * Helper function to check if a Canadian province or territory code is valid
+ */
+export function isValidProvinceCode(province: string): boolean {
+  return CA_PROVINCES_LIST.includes(
+    province.toUpperCase() as (typeof CA_PROVINCES_LIST)[number]
+  );
+}
+
+/**
+ * Helper function to check if a country code is supported
+ */
+export function isValidCountry(country: string): country is Country {
+  return COUNTRIES.includes(country as Country);
+}
+
+/**
+ * Helper function to get the address labels and regions for a country
+ * Falls back to the US format while no valid country is chosen
+ */
+export function getAddressFormat(country: string) {
+  return ADDRESS_FORMATS[isValidCountry(country) ? country : 'US'];
+}
+
+/**
+ * Helper function to normalize a Canadian postal code to A1A 1A1
+ * Anything else, such as a US ZIP code, is only trimmed and uppercased
+ */
+export function normalizePostalCode(postalCode: string): string {
+  return postalCode
+    .trim()
+    .toUpperCase()
+    .replace(/^([A-Z]\d[A-Z])\s*(\d[A-Z]\d)$/, '$1 $2');
+}
+
+/**
+ * Helper function to check if an identifier is a valid UUID
+ */
+export function isValidUuid(id: string): boolean {
+  return ID_VALIDATION.UUID_REGEX.test(id);
 }
 
 /**
  * Helper function to normalize phone number to 10 digits
+ * Drops the +1 country code, so 1-951-526-3834 and (951) 526-3834 match
  */
 export function normalizePhoneNumber(phoneNumber: string): string {
-  return phoneNumber.replace(/\D/g, '');
+  const digits = phoneNumber.replace(/\D/g, '');
+  return digits.length === 11 && digits.startsWith('1')
+    ? digits.slice(1)
+    : digits;
 }
 
 /**
@@ -191,5 +621,7 @@ export function calculateAge(dateOfBirth: string): number {
  */
 export function isValidZipRange(zipCode: string): boolean {
   const zipNum = parseInt(zipCode.split('-')[0], 10);
-  return zipNum >= ZIP_VALIDATION.MIN_RANGE && zipNum <= ZIP_VALIDATION.MAX_RANGE;
+  return (
+    zipNum >= ZIP_VALIDATION.MIN_RANGE && zipNum <= ZIP_VALIDATION.MAX_RANGE
+  );
 }
@@ -0,0 +1,3 @@
+-- CreateIndex
+-- Supports keyset (cursor) pagination over (created_at, id)
+CREATE INDEX "idx_investor_created_id" ON "investors"("created_at", "id");
@@ -0,0 +1,5 @@
+-- Convert stored file paths into backend-neutral storage keys
+-- e.g. ./uploads/1702656000000-ab12cd-license.pdf -> 1702656000000-ab12cd-license.pdf
+-- Keys are resolved against UPLOAD_DIR (local) or the configured bucket (S3)
+UPDATE "investor_files"
+SET "file_path" = regexp_replace("file_path", '^\.?/?uploads/', '');
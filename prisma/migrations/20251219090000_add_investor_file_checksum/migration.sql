@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "investor_files" ADD COLUMN "checksum_sha256" CHAR(64);
+
+-- CreateIndex
+CREATE INDEX "idx_investor_file_checksum" ON "investor_files"("checksum_sha256");
+
+-- Checksum: lowercase hex SHA-256 when present
+ALTER TABLE "investor_files"
+ADD CONSTRAINT "chk_checksum_sha256_format"
+CHECK (checksum_sha256 IS NULL OR checksum_sha256 ~ '^[0-9a-f]{64}$');
@@ -0,0 +1,18 @@
+-- CHECK constraints cannot inspect ciphertext; the same rules are enforced
+-- in lib/pii-encryption.ts before values are encrypted
+ALTER TABLE "investors" DROP CONSTRAINT "chk_phone_number_format";
+ALTER TABLE "investors" DROP CONSTRAINT "chk_date_of_birth_age";
+ALTER TABLE "investors" DROP CONSTRAINT "chk_street_address_length";
+
+-- DropIndex
+DROP INDEX "idx_investor_phone";
+
+-- AlterTable
+-- Existing rows stay readable as plaintext until `npm run pii:encrypt` runs
+ALTER TABLE "investors" ALTER COLUMN "date_of_birth" SET DATA TYPE TEXT USING to_char("date_of_birth", 'YYYY-MM-DD'),
+ALTER COLUMN "phone_number" SET DATA TYPE TEXT,
+ALTER COLUMN "street_address" SET DATA TYPE TEXT,
+ADD COLUMN "phone_number_hash" CHAR(64);
+
+-- CreateIndex
+CREATE INDEX "idx_investor_phone" ON "investors"("phone_number_hash");
@@ -0,0 +1,13 @@
+-- AlterTable
+-- Existing files stay readable as plaintext until `npm run files:encrypt` runs
+ALTER TABLE "investor_files" ADD COLUMN "encryption_key_id" VARCHAR(64),
+ADD COLUMN "wrapped_data_key" VARCHAR(128),
+ADD COLUMN "encryption_iv" CHAR(24);
+
+-- Encryption: either fully described or not encrypted at all
+ALTER TABLE "investor_files"
+ADD CONSTRAINT "chk_file_encryption_complete"
+CHECK (
+  (encryption_key_id IS NULL AND wrapped_data_key IS NULL AND encryption_iv IS NULL)
+  OR (encryption_key_id IS NOT NULL AND wrapped_data_key IS NOT NULL AND encryption_iv IS NOT NULL)
+);
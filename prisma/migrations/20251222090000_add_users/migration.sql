@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "user_role" AS ENUM ('applicant', 'reviewer', 'admin');
+
+-- CreateTable
+CREATE TABLE "users" (
+    "id" UUID NOT NULL,
+    "email" VARCHAR(255) NOT NULL,
+    "password_hash" VARCHAR(255) NOT NULL,
+    "role" "user_role" NOT NULL DEFAULT 'applicant',
+    "investor_id" UUID,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_investor_id_key" ON "users"("investor_id");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_investor_id_fkey" FOREIGN KEY ("investor_id") REFERENCES "investors"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Emails are stored lowercased
+ALTER TABLE "users"
+ADD CONSTRAINT "chk_email_lowercase"
+CHECK (email = lower(email));
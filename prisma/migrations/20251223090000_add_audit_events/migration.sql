@@ -0,0 +1,46 @@
+-- AlterEnum
+ALTER TYPE "user_role" ADD VALUE 'auditor';
+
+-- CreateEnum
+CREATE TYPE "audit_action" AS ENUM ('create', 'read', 'update', 'delete', 'download');
+
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id" UUID NOT NULL,
+    "actor_id" UUID NOT NULL,
+    "actor_email" VARCHAR(255) NOT NULL,
+    "actor_role" "user_role" NOT NULL,
+    "action" "audit_action" NOT NULL,
+    "investor_id" UUID,
+    "file_id" UUID,
+    "changes" JSONB,
+    "ip_address" VARCHAR(45),
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_audit_event_investor" ON "audit_events"("investor_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_audit_event_actor" ON "audit_events"("actor_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_audit_event_created_id" ON "audit_events"("created_at", "id");
+
+-- Audit events are append-only, even for the application's own role
+CREATE FUNCTION "reject_audit_event_change"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_events is append-only'
+        USING ERRCODE = 'restrict_violation';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "trg_audit_events_append_only"
+BEFORE UPDATE OR DELETE ON "audit_events"
+FOR EACH ROW EXECUTE FUNCTION "reject_audit_event_change"();
+
+CREATE TRIGGER "trg_audit_events_no_truncate"
+BEFORE TRUNCATE ON "audit_events"
+FOR EACH STATEMENT EXECUTE FUNCTION "reject_audit_event_change"();
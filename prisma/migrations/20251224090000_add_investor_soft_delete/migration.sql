@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "investors" ADD COLUMN "deleted_at" TIMESTAMPTZ(3);
+
+-- CreateIndex
+CREATE INDEX "idx_investor_deleted_at" ON "investors"("deleted_at");
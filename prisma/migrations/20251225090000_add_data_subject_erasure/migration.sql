@@ -0,0 +1,62 @@
+-- AlterEnum
+ALTER TYPE "audit_action" ADD VALUE 'export';
+ALTER TYPE "audit_action" ADD VALUE 'erase';
+
+-- AlterTable
+ALTER TABLE "audit_events" ADD COLUMN "redacted_at" TIMESTAMPTZ(3);
+
+-- CreateTable
+CREATE TABLE "erasure_tombstones" (
+    "id" UUID NOT NULL,
+    "investor_id" UUID NOT NULL,
+    "erased_by_id" UUID NOT NULL,
+    "reference" VARCHAR(100),
+    "files_erased" INTEGER NOT NULL,
+    "erased_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "erasure_tombstones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "erasure_tombstones_investor_id_key" ON "erasure_tombstones"("investor_id");
+
+-- An erasure may strip personal data from audit events (the field diff, and
+-- the actor's email and IP when the subject was the actor) and must stamp
+-- redacted_at. Every other change is still rejected.
+CREATE OR REPLACE FUNCTION "reject_audit_event_change"() RETURNS trigger AS $$
+BEGIN
+    -- NEW is only assigned for row-level UPDATE, so check TG_OP first
+    IF TG_OP = 'UPDATE' THEN
+        IF NEW.redacted_at IS NOT NULL
+            AND NEW.changes IS NULL
+            AND (NEW.ip_address IS NULL OR NEW.ip_address = OLD.ip_address)
+            AND (NEW.id, NEW.actor_id, NEW.actor_role, NEW.action,
+                 NEW.investor_id, NEW.file_id, NEW.created_at)
+                IS NOT DISTINCT FROM
+                (OLD.id, OLD.actor_id, OLD.actor_role, OLD.action,
+                 OLD.investor_id, OLD.file_id, OLD.created_at)
+        THEN
+            RETURN NEW;
+        END IF;
+    END IF;
+
+    RAISE EXCEPTION 'audit_events is append-only'
+        USING ERRCODE = 'restrict_violation';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Tombstones are permanent
+CREATE FUNCTION "reject_erasure_tombstone_change"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'erasure_tombstones is append-only'
+        USING ERRCODE = 'restrict_violation';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "trg_erasure_tombstones_append_only"
+BEFORE UPDATE OR DELETE ON "erasure_tombstones"
+FOR EACH ROW EXECUTE FUNCTION "reject_erasure_tombstone_change"();
+
+CREATE TRIGGER "trg_erasure_tombstones_no_truncate"
+BEFORE TRUNCATE ON "erasure_tombstones"
+FOR EACH STATEMENT EXECUTE FUNCTION "reject_erasure_tombstone_change"();
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "investor_status" AS ENUM ('submitted', 'in_review', 'approved', 'rejected', 'needs_more_info');
+
+-- AlterTable
+ALTER TABLE "investors"
+ADD COLUMN "status" "investor_status" NOT NULL DEFAULT 'submitted',
+ADD COLUMN "status_changed_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing investors were submitted when they were created
+UPDATE "investors" SET "status_changed_at" = "created_at";
+
+-- CreateTable
+CREATE TABLE "investor_status_changes" (
+    "id" UUID NOT NULL,
+    "investor_id" UUID NOT NULL,
+    "from_status" "investor_status",
+    "to_status" "investor_status" NOT NULL,
+    "note" VARCHAR(2000),
+    "changed_by_id" UUID,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "investor_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill the initial submission for existing investors
+INSERT INTO "investor_status_changes" ("id", "investor_id", "to_status", "created_at")
+SELECT gen_random_uuid(), "id", 'submitted', "created_at" FROM "investors";
+
+-- CreateIndex
+CREATE INDEX "idx_investor_status_created" ON "investors"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_investor_status_change_investor" ON "investor_status_changes"("investor_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "investor_status_changes" ADD CONSTRAINT "investor_status_changes_investor_id_fkey" FOREIGN KEY ("investor_id") REFERENCES "investors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "investor_status_changes" ADD CONSTRAINT "investor_status_changes_changed_by_id_fkey" FOREIGN KEY ("changed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "document_type" AS ENUM ('government_id_front', 'government_id_back', 'passport', 'proof_of_address', 'accreditation_letter', 'other');
+
+-- AlterTable
+-- Documents uploaded before types existed are classified as 'other'; new
+-- uploads must always say what they are, so the default is dropped again
+ALTER TABLE "investor_files" ADD COLUMN "document_type" "document_type" NOT NULL DEFAULT 'other';
+ALTER TABLE "investor_files" ALTER COLUMN "document_type" DROP DEFAULT;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "investor_files"
+ADD COLUMN "issue_date" DATE,
+ADD COLUMN "expiry_date" DATE;
+
+-- An expiry date cannot come before the issue date
+ALTER TABLE "investor_files"
+ADD CONSTRAINT "chk_document_dates"
+CHECK ("issue_date" IS NULL OR "expiry_date" IS NULL OR "expiry_date" > "issue_date");
+
+-- CreateIndex
+CREATE INDEX "idx_investor_file_expiry_date" ON "investor_files"("expiry_date");
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "investors"
+ADD COLUMN "merged_into_id" UUID;
+
+-- A merged duplicate points at the investor that absorbed it
+ALTER TABLE "investors"
+ADD CONSTRAINT "investors_merged_into_id_fkey"
+FOREIGN KEY ("merged_into_id") REFERENCES "investors"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- An investor cannot be merged into itself
+ALTER TABLE "investors"
+ADD CONSTRAINT "chk_investor_merged_into_self"
+CHECK ("merged_into_id" IS NULL OR "merged_into_id" <> "id");
+
+-- CreateIndex
+CREATE INDEX "idx_investor_zip_code" ON "investors"("zip_code");
+
+-- CreateIndex
+CREATE INDEX "idx_investor_merged_into" ON "investors"("merged_into_id");
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "idempotency_keys" (
+    "user_id" UUID NOT NULL,
+    "key" VARCHAR(255) NOT NULL,
+    "request_hash" CHAR(64) NOT NULL,
+    "status_code" INTEGER,
+    "response" JSONB,
+    "investor_id" UUID,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "idempotency_keys_pkey" PRIMARY KEY ("user_id","key")
+);
+
+-- A completed request stores both its status code and its response
+ALTER TABLE "idempotency_keys"
+ADD CONSTRAINT "chk_idempotency_key_response"
+CHECK (("status_code" IS NULL) = ("response" IS NULL));
+
+-- CreateIndex
+CREATE INDEX "idx_idempotency_key_expires_at" ON "idempotency_keys"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "idempotency_keys" ADD CONSTRAINT "idempotency_keys_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
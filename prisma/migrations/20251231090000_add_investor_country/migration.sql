@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "country" AS ENUM ('US', 'CA');
+
+-- AlterTable
+-- Existing investors were all validated as US addresses
+ALTER TABLE "investors"
+ADD COLUMN "country" "country" NOT NULL DEFAULT 'US';
+
+-- ZIP code checks now depend on the country
+ALTER TABLE "investors"
+DROP CONSTRAINT "chk_zip_code_format";
+
+-- Postal code: US ZIP in 5 or 5-4 format within 00501-99950, or Canadian
+-- postal code in A1A 1A1 format (no D, F, I, O, Q or U; no W or Z first)
+ALTER TABLE "investors"
+ADD CONSTRAINT "chk_investor_postal_code"
+CHECK (
+  CASE country
+    WHEN 'US' THEN
+      zip_code ~ '^[0-9]{5}(-[0-9]{4})?$' AND
+      CAST(SUBSTRING(zip_code, 1, 5) AS INTEGER) BETWEEN 501 AND 99950
+    WHEN 'CA' THEN
+      zip_code ~ '^[ABCEGHJ-NPRSTVXY][0-9][ABCEGHJ-NPRSTV-Z] [0-9][ABCEGHJ-NPRSTV-Z][0-9]$'
+  END
+);
+
+-- State: a US state code, or a Canadian province or territory code
+ALTER TABLE "investors"
+ADD CONSTRAINT "chk_investor_region"
+CHECK (
+  CASE country
+    WHEN 'US' THEN state IN (
+      'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'FL', 'GA',
+      'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD',
+      'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ',
+      'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC',
+      'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY', 'DC'
+    )
+    WHEN 'CA' THEN state IN (
+      'AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE',
+      'QC', 'SK', 'YT'
+    )
+  END
+);
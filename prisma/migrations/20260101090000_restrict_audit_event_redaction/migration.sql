@@ -0,0 +1,26 @@
+-- A redaction may only replace the actor's email with the 'erased' marker;
+-- before this any UPDATE that stamped redacted_at could rewrite actor_email
+-- and forge who made an event
+CREATE OR REPLACE FUNCTION "reject_audit_event_change"() RETURNS trigger AS $$
+BEGIN
+    -- NEW is only assigned for row-level UPDATE, so check TG_OP first
+    IF TG_OP = 'UPDATE' THEN
+        IF NEW.redacted_at IS NOT NULL
+            AND NEW.changes IS NULL
+            AND (NEW.ip_address IS NULL OR NEW.ip_address = OLD.ip_address)
+            AND (NEW.actor_email = OLD.actor_email
+                 OR NEW.actor_email = 'erased')
+            AND (NEW.id, NEW.actor_id, NEW.actor_role, NEW.action,
+                 NEW.investor_id, NEW.file_id, NEW.created_at)
+                IS NOT DISTINCT FROM
+                (OLD.id, OLD.actor_id, OLD.actor_role, OLD.action,
+                 OLD.investor_id, OLD.file_id, OLD.created_at)
+        THEN
+            RETURN NEW;
+        END IF;
+    END IF;
+
+    RAISE EXCEPTION 'audit_events is append-only'
+        USING ERRCODE = 'restrict_violation';
+END;
+$$ LANGUAGE plpgsql;
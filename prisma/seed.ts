@@ -2,6 +2,8 @@ import 'dotenv/config';
 import { PrismaClient } from '@prisma/client';
 import { Pool } from 'pg';
 import { PrismaPg } from '@prisma/adapter-pg';
+import { piiEncryption } from '../lib/pii-encryption';
+import { hashPassword } from '../lib/password';
 
 // Prisma v7 requires adapter configuration
 const connectionString = process.env.DATABASE_URL;
@@ -13,10 +15,11 @@ if (!connectionString) {
 const pool = new Pool({ connectionString });
 const adapter = new PrismaPg(pool);
 
+// PII is encrypted on write, so seeding needs ENCRYPTION_KEYS as well
 const prisma = new PrismaClient({
   adapter,
   log: ['query', 'error', 'warn'],
-});
+}).$extends(piiEncryption);
 
 /**
  * Sample investor data
@@ -26,102 +29,149 @@ const sampleInvestors = [
   {
     firstName: 'John',
     lastName: 'Smith',
-    dateOfBirth: new Date('1985-03-15'),
+    dateOfBirth: '1985-03-15',
     phoneNumber: '9535550123',
     streetAddress: '123 Oak Street',
     state: 'CA',
     zipCode: '90210',
     files: [
       {
-        filePath: '/uploads/sample/john-smith-id.pdf',
+        filePath: 'sample/john-smith-id.pdf',
         fileOriginalName: 'drivers-license.pdf',
         fileSize: 245760,
         mimeType: 'application/pdf',
+        documentType: 'government_id_front' as const,
       },
       {
-        filePath: '/uploads/sample/john-smith-proof.jpg',
+        filePath: 'sample/john-smith-proof.jpg',
         fileOriginalName: 'proof-of-address.jpg',
         fileSize: 512000,
         mimeType: 'image/jpeg',
+        documentType: 'proof_of_address' as const,
       },
     ],
   },
   {
     firstName: 'Sarah',
     lastName: 'Johnson',
-    dateOfBirth: new Date('1990-07-22'),
+    dateOfBirth: '1990-07-22',
     phoneNumber: '2125550456',
     streetAddress: '456 Maple Avenue',
     state: 'NY',
     zipCode: '10001',
     files: [
       {
-        filePath: '/uploads/sample/sarah-johnson-id.pdf',
+        filePath: 'sample/sarah-johnson-id.pdf',
         fileOriginalName: 'passport.pdf',
         fileSize: 389120,
         mimeType: 'application/pdf',
+        documentType: 'passport' as const,
       },
     ],
   },
   {
     firstName: 'Michael',
     lastName: 'Chen',
-    dateOfBirth: new Date('1978-11-08'),
+    dateOfBirth: '1978-11-08',
     phoneNumber: '2145550789',
     streetAddress: '789 Pine Boulevard',
     state: 'TX',
     zipCode: '75001',
     files: [
       {
-        filePath: '/uploads/sample/michael-chen-id.pdf',
+        filePath: 'sample/michael-chen-id.pdf',
         fileOriginalName: 'state-id.pdf',
         fileSize: 301056,
         mimeType: 'application/pdf',
+        documentType: 'government_id_front' as const,
       },
     ],
   },
   {
     firstName: 'Emily',
     lastName: 'Rodriguez',
-    dateOfBirth: new Date('1995-05-30'),
+    dateOfBirth: '1995-05-30',
     phoneNumber: '3055550321',
     streetAddress: '321 Cedar Lane',
     state: 'FL',
     zipCode: '33101',
     files: [
       {
-        filePath: '/uploads/sample/emily-rodriguez-id.pdf',
+        filePath: 'sample/emily-rodriguez-id.pdf',
         fileOriginalName: 'drivers-license.pdf',
         fileSize: 278528,
         mimeType: 'application/pdf',
+        documentType: 'government_id_front' as const,
       },
       {
-        filePath: '/uploads/sample/emily-rodriguez-utility.png',
+        filePath: 'sample/emily-rodriguez-utility.png',
         fileOriginalName: 'utility-bill.png',
         fileSize: 456789,
         mimeType: 'image/png',
+        documentType: 'proof_of_address' as const,
       },
     ],
   },
   {
     firstName: 'David',
     lastName: 'Williams',
-    dateOfBirth: new Date('1982-09-17'),
+    dateOfBirth: '1982-09-17',
     phoneNumber: '2065550654',
     streetAddress: '654 Birch Court',
     state: 'WA',
     zipCode: '98101',
     files: [
       {
-        filePath: '/uploads/sample/david-williams-id.pdf',
+        filePath: 'sample/david-williams-id.pdf',
         fileOriginalName: 'passport.pdf',
         fileSize: 334848,
         mimeType: 'application/pdf',
+        documentType: 'passport' as const,
+      },
+    ],
+  },
+  {
+    firstName: 'Sophie',
+    lastName: 'Tremblay',
+    dateOfBirth: '1991-04-08',
+    phoneNumber: '5145550321',
+    streetAddress: '321 Rue Sainte-Catherine',
+    state: 'QC',
+    zipCode: 'H2X 1Y4',
+    country: 'CA' as const,
+    files: [
+      {
+        filePath: 'sample/sophie-tremblay-passport.pdf',
+        fileOriginalName: 'passport.pdf',
+        fileSize: 301056,
+        mimeType: 'application/pdf',
+        documentType: 'passport' as const,
+      },
+      {
+        filePath: 'sample/sophie-tremblay-statement.pdf',
+        fileOriginalName: 'bank-statement.pdf',
+        fileSize: 198656,
+        mimeType: 'application/pdf',
+        documentType: 'proof_of_address' as const,
       },
     ],
   },
 ];
 
+/**
+ * Sample accounts, one per role
+ * The applicant is linked to the first sample investor
+ * Development only - never seed these credentials into a shared database
+ */
+const SAMPLE_PASSWORD = 'development-password';
+
+const sampleUsers = [
+  { email: 'admin@example.com', role: 'admin' as const },
+  { email: 'reviewer@example.com', role: 'reviewer' as const },
+  { email: 'applicant@example.com', role: 'applicant' as const },
+  { email: 'auditor@example.com', role: 'auditor' as const },
+];
+
 /**
  * Main seed function
  * This is idempotent - it can be run multiple times safely
@@ -152,9 +202,13 @@ async function main() {
         streetAddress: investor.streetAddress,
         state: investor.state,
         zipCode: investor.zipCode,
+        country: investor.country,
         files: {
           create: investor.files,
         },
+        statusChanges: {
+          create: { toStatus: 'submitted' },
+        },
       },
       include: {
         files: true,
@@ -168,6 +222,31 @@ async function main() {
 
   console.log(`\nSuccessfully seeded ${sampleInvestors.length} investors!`);
 
+  console.log('\nSeeding users...');
+
+  const firstInvestor = await prisma.investor.findFirst({
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  });
+  const passwordHash = await hashPassword(SAMPLE_PASSWORD);
+
+  for (const user of sampleUsers) {
+    await prisma.user.upsert({
+      where: { email: user.email },
+      create: {
+        email: user.email,
+        passwordHash,
+        role: user.role,
+        investorId: user.role === 'applicant' ? firstInvestor?.id : undefined,
+      },
+      update: {},
+    });
+
+    console.log(`✓ Created user: ${user.email} (${user.role})`);
+  }
+
+  console.log(`Sample password for all users: ${SAMPLE_PASSWORD}`);
+
   // Display summary statistics
   const totalInvestors = await prisma.investor.count();
   const states = await prisma.investor.groupBy({
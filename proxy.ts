@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestToken, verifySessionToken } from '@/lib/session';
+import { ERROR_MESSAGES } from '@/lib/validation-constants';
+
+/**
+ * Reject unauthenticated requests to the investor and audit APIs before they
+ * reach a route handler. Handlers still load the user and enforce roles and
+ * record-level access (lib/auth.ts).
+ */
+export async function proxy(request: NextRequest) {
+  const token = getRequestToken(request);
+  const claims = token ? await verifySessionToken(token) : null;
+
+  if (!claims) {
+    return NextResponse.json(
+      { error: ERROR_MESSAGES.AUTH_REQUIRED },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/api/investors/:path*', '/api/audit-events/:path*'],
+};
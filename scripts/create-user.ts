@@ -0,0 +1,81 @@
+import 'dotenv/config';
+import { randomBytes } from 'crypto';
+import type { UserRole } from '@prisma/client';
+import { db, disconnectDB } from '@/lib/db';
+import { validateCredentials } from '@/lib/auth';
+import { hashPassword } from '@/lib/password';
+
+/**
+ * Create a user or change an existing user's role and password
+ * Reviewer, admin and auditor accounts can only be created this way.
+ *
+ * Usage:
+ *   npm run users:create -- --email=alice@example.com --role=admin
+ *
+ * The password is read from USER_PASSWORD; when it is not set a random
+ * password is generated and printed once.
+ */
+
+const ROLES: UserRole[] = ['applicant', 'reviewer', 'admin', 'auditor'];
+
+function parseArgs(argv: string[]) {
+  const options = { email: '', role: 'applicant' as UserRole };
+
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=');
+
+    switch (flag) {
+      case '--email':
+        options.email = value ?? '';
+        break;
+      case '--role':
+        if (!ROLES.includes(value as UserRole)) {
+          throw new Error(`--role must be one of ${ROLES.join(', ')}`);
+        }
+        options.role = value as UserRole;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const generated = !process.env.USER_PASSWORD;
+  const password =
+    process.env.USER_PASSWORD || randomBytes(18).toString('base64url');
+
+  const validation = validateCredentials({ email: options.email, password });
+
+  if (!validation.isValid) {
+    throw new Error(validation.errors.map((error) => error.message).join('; '));
+  }
+
+  const { email } = validation.data!;
+  const passwordHash = await hashPassword(password);
+
+  const user = await db.user.upsert({
+    where: { email },
+    create: { email, passwordHash, role: options.role },
+    update: { passwordHash, role: options.role },
+  });
+
+  console.log(`✓ ${user.email} (${user.role}) - ID: ${user.id}`);
+
+  if (generated) {
+    console.log(`Generated password: ${password}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('\nError creating user:');
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await disconnectDB();
+  });
@@ -0,0 +1,268 @@
+import 'dotenv/config';
+import { createHash } from 'crypto';
+import { Transform } from 'stream';
+import { db, disconnectDB } from '@/lib/db';
+import { executeTransaction, iterateByCursor } from '@/lib/db-utils';
+import { getActiveKeyId } from '@/lib/encryption';
+import {
+  createEncryptionStream,
+  isFileEncrypted,
+  rewrapFileKey,
+  type FileEncryptionFields,
+  type FileEncryptionMetadata,
+} from '@/lib/file-encryption';
+import {
+  STAGING_PREFIX,
+  deleteFiles,
+  generateUniqueFilename,
+} from '@/lib/file-upload';
+import { getStorage, type StorageBackend } from '@/lib/storage';
+
+/**
+ * Encrypt investor documents stored before file encryption, and re-wrap file
+ * data keys under the active key after a key rotation
+ *
+ * Usage:
+ *   npm run files:encrypt -- [--dry-run] [--batch-size=100]
+ *
+ * Each file is encrypted to a staging key and moved to a new storage key in
+ * the transaction that points its row there. The plaintext original is only
+ * deleted after the commit, so whether the transaction commits or not, the
+ * row describes bytes that exist. Files whose contents no longer match their
+ * recorded checksum are skipped and reported.
+ */
+
+interface FileRow extends FileEncryptionFields {
+  id: string;
+  filePath: string;
+  fileOriginalName: string;
+  checksum: string | null;
+  createdAt: Date;
+}
+
+function parseArgs(argv: string[]) {
+  const options = { dryRun: false, batchSize: 100 };
+
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=');
+
+    switch (flag) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--batch-size':
+        if (!/^[1-9]\d*$/.test(value ?? '')) {
+          throw new Error('--batch-size must be a positive integer');
+        }
+        options.batchSize = parseInt(value, 10);
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Write an encrypted copy of a plaintext file and return its plaintext checksum
+ */
+async function writeEncryptedCopy(
+  storage: StorageBackend,
+  sourceKey: string,
+  targetKey: string
+): Promise<{ checksum: string; encryption: FileEncryptionMetadata }> {
+  const source = await storage.getStream(sourceKey);
+  const hash = createHash('sha256');
+  const hashingStream = new Transform({
+    transform(chunk, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+  const encryption = createEncryptionStream();
+
+  source.on('error', (error) => hashingStream.destroy(error));
+  hashingStream.on('error', (error) => encryption.stream.destroy(error));
+
+  await storage.put(
+    targetKey,
+    source.pipe(hashingStream).pipe(encryption.stream),
+    {
+      contentType: 'application/octet-stream',
+    }
+  );
+
+  return { checksum: hash.digest('hex'), encryption: encryption.metadata };
+}
+
+/**
+ * Encrypt one plaintext file into a new storage key
+ */
+async function encryptFile(
+  storage: StorageBackend,
+  row: FileRow
+): Promise<'encrypted' | 'missing' | 'checksum-mismatch'> {
+  if (!(await storage.exists(row.filePath))) {
+    return 'missing';
+  }
+
+  const encryptedKey = generateUniqueFilename(row.fileOriginalName);
+  const stagingKey = `${STAGING_PREFIX}${encryptedKey}`;
+  let committed: boolean;
+
+  try {
+    const { checksum, encryption } = await writeEncryptedCopy(
+      storage,
+      row.filePath,
+      stagingKey
+    );
+
+    if (row.checksum && row.checksum !== checksum) {
+      await deleteFiles([stagingKey], storage);
+      return 'checksum-mismatch';
+    }
+
+    const result = await executeTransaction(async (tx) => {
+      // Guard against a concurrent run encrypting the same row
+      const updated = await tx.investorFile.updateMany({
+        where: { id: row.id, filePath: row.filePath, encryptionIv: null },
+        data: { ...encryption, checksum, filePath: encryptedKey },
+      });
+
+      if (updated.count === 0) {
+        return false;
+      }
+
+      await storage.move(stagingKey, encryptedKey);
+      return true;
+    });
+
+    if (result.error) {
+      throw result.error;
+    }
+
+    committed = result.data!;
+  } catch (error) {
+    await deleteFiles([stagingKey, encryptedKey], storage).catch(
+      () => undefined
+    );
+    throw error;
+  }
+
+  if (!committed) {
+    // Another run encrypted the row first
+    await deleteFiles([stagingKey], storage);
+    return 'encrypted';
+  }
+
+  try {
+    await deleteFiles([row.filePath], storage);
+  } catch (error) {
+    // The row already points at the encrypted copy; files:reconcile will
+    // find the leftover plaintext
+    console.error(
+      `Failed to delete plaintext of investor file ${row.id}:`,
+      error
+    );
+  }
+
+  return 'encrypted';
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const storage = getStorage();
+  const activeKeyId = getActiveKeyId();
+  const summary = {
+    encrypted: 0,
+    rewrapped: 0,
+    missing: [] as string[],
+    checksumMismatch: [] as string[],
+    failed: [] as string[],
+  };
+
+  console.log(
+    `Encrypting stored documents under key "${activeKeyId}"${options.dryRun ? ' (dry run)' : ''}...`
+  );
+
+  // 1. Plaintext files
+  for await (const batch of iterateByCursor<FileRow>(
+    'investorFile',
+    options.batchSize,
+    { encryptionIv: null }
+  )) {
+    for (const row of batch) {
+      if (options.dryRun) {
+        summary.encrypted++;
+        continue;
+      }
+
+      try {
+        const outcome = await encryptFile(storage, row);
+
+        if (outcome === 'encrypted') summary.encrypted++;
+        if (outcome === 'missing') summary.missing.push(row.id);
+        if (outcome === 'checksum-mismatch') {
+          summary.checksumMismatch.push(row.id);
+        }
+      } catch (error) {
+        console.error(`Failed to encrypt investor file ${row.id}:`, error);
+        summary.failed.push(row.id);
+      }
+    }
+  }
+
+  // 2. Data keys wrapped under a retired key; only the row changes
+  for await (const batch of iterateByCursor<FileRow>(
+    'investorFile',
+    options.batchSize,
+    { encryptionKeyId: { not: activeKeyId } }
+  )) {
+    for (const row of batch) {
+      const rewrapped = isFileEncrypted(row) ? rewrapFileKey(row) : null;
+
+      if (!rewrapped) continue;
+
+      summary.rewrapped++;
+
+      if (!options.dryRun) {
+        await db.investorFile.update({
+          where: { id: row.id },
+          data: rewrapped,
+        });
+      }
+    }
+  }
+
+  const verb = options.dryRun ? 'would be' : 'were';
+
+  console.log(
+    `${summary.encrypted} file(s) ${verb} encrypted, ${summary.rewrapped} key(s) ${verb} re-wrapped`
+  );
+
+  if (summary.missing.length > 0) {
+    console.log(`Missing from storage: ${summary.missing.join(', ')}`);
+  }
+
+  if (summary.checksumMismatch.length > 0) {
+    console.log(
+      `Checksum mismatch (left unencrypted): ${summary.checksumMismatch.join(', ')}`
+    );
+  }
+
+  if (summary.failed.length > 0) {
+    console.log(`Failed: ${summary.failed.join(', ')}`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('\nError during file encryption:');
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await disconnectDB();
+  });
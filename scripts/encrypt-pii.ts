@@ -0,0 +1,142 @@
+import 'dotenv/config';
+import { db, disconnectDB } from '@/lib/db';
+import {
+  decryptValue,
+  encryptValue,
+  getActiveKeyId,
+  getValueKeyId,
+  isEncryptedValue,
+  rewrapValue,
+} from '@/lib/encryption';
+import { phoneNumberBlindIndex } from '@/lib/pii-encryption';
+
+/**
+ * Encrypt investor PII written before field-level encryption, and re-wrap
+ * values under the active key after a key rotation
+ *
+ * Usage:
+ *   npm run pii:encrypt -- [--dry-run] [--batch-size=500]
+ *
+ * Safe to re-run: values already encrypted under the active key are skipped.
+ * Rows are read and written with raw SQL so the client extension does not
+ * decrypt or re-encrypt them.
+ */
+
+interface InvestorPiiRow {
+  id: string;
+  date_of_birth: string;
+  phone_number: string;
+  phone_number_hash: string | null;
+  street_address: string;
+}
+
+function parseArgs(argv: string[]) {
+  const options = { dryRun: false, batchSize: 500 };
+
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=');
+
+    switch (flag) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--batch-size':
+        if (!/^[1-9]\d*$/.test(value ?? '')) {
+          throw new Error('--batch-size must be a positive integer');
+        }
+        options.batchSize = parseInt(value, 10);
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Encrypt a plaintext value, or re-wrap it if it uses a retired key
+ */
+function protect(value: string, activeKeyId: string): string {
+  if (!isEncryptedValue(value)) {
+    return encryptValue(value);
+  }
+
+  return getValueKeyId(value) === activeKeyId ? value : rewrapValue(value);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const activeKeyId = getActiveKeyId();
+  let scanned = 0;
+  let updated = 0;
+  let lastId: string | null = null;
+
+  console.log(
+    `Encrypting investor PII under key "${activeKeyId}"${options.dryRun ? ' (dry run)' : ''}...`
+  );
+
+  while (true) {
+    const afterId: string | null = lastId;
+    const rows: InvestorPiiRow[] = await db.$queryRaw<InvestorPiiRow[]>`
+      SELECT id, date_of_birth, phone_number, phone_number_hash, street_address
+      FROM investors
+      WHERE ${afterId}::uuid IS NULL OR id > ${afterId}::uuid
+      ORDER BY id
+      LIMIT ${options.batchSize}
+    `;
+
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      scanned++;
+
+      const phoneNumber = isEncryptedValue(row.phone_number)
+        ? decryptValue(row.phone_number)
+        : row.phone_number;
+      const next = {
+        dateOfBirth: protect(row.date_of_birth, activeKeyId),
+        phoneNumber: protect(row.phone_number, activeKeyId),
+        phoneNumberHash: phoneNumberBlindIndex(phoneNumber),
+        streetAddress: protect(row.street_address, activeKeyId),
+      };
+
+      const changed =
+        next.dateOfBirth !== row.date_of_birth ||
+        next.phoneNumber !== row.phone_number ||
+        next.phoneNumberHash !== row.phone_number_hash ||
+        next.streetAddress !== row.street_address;
+
+      if (!changed) continue;
+
+      updated++;
+
+      if (!options.dryRun) {
+        await db.$executeRaw`
+          UPDATE investors
+          SET date_of_birth = ${next.dateOfBirth},
+              phone_number = ${next.phoneNumber},
+              phone_number_hash = ${next.phoneNumberHash},
+              street_address = ${next.streetAddress}
+          WHERE id = ${row.id}::uuid
+        `;
+      }
+    }
+
+    lastId = rows[rows.length - 1].id;
+  }
+
+  console.log(
+    `Scanned ${scanned} investor(s); ${updated} ${options.dryRun ? 'would be updated' : 'updated'}`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('\nError during PII encryption:');
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await disconnectDB();
+  });
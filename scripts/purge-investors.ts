@@ -0,0 +1,95 @@
+import 'dotenv/config';
+import { writeFile } from 'fs/promises';
+import { disconnectDB } from '@/lib/db';
+import { purgeExpiredIdempotencyKeys } from '@/lib/idempotency';
+import { purgeDeletedInvestors } from '@/lib/retention';
+
+/**
+ * Purge soft-deleted investors whose retention period has expired
+ *
+ * Usage:
+ *   npm run retention:purge -- [--dry-run] [--batch-size=500]
+ *                              [--output=purge-report.json]
+ *
+ * The retention policy comes from RETENTION_PURGE_AFTER_DAYS and
+ * RETENTION_REGULATORY_HOLD_YEARS (see lib/retention.ts). The JSON purge
+ * report is printed to stdout, or written to --output. Idempotency keys past
+ * their replay window are deleted on the same run.
+ */
+
+function parseArgs(argv: string[]) {
+  const options = {
+    dryRun: false,
+    batchSize: 500,
+    output: undefined as string | undefined,
+  };
+
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=');
+
+    switch (flag) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--batch-size':
+        if (!/^[1-9]\d*$/.test(value ?? '')) {
+          throw new Error('--batch-size must be a positive integer');
+        }
+        options.batchSize = parseInt(value, 10);
+        break;
+      case '--output':
+        if (!value) {
+          throw new Error('--output requires a file path');
+        }
+        options.output = value;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  console.error(
+    `Purging expired investors${options.dryRun ? ' (dry run)' : ''}...`
+  );
+
+  const report = await purgeDeletedInvestors(options);
+  const json = JSON.stringify(report, null, 2);
+
+  if (options.output) {
+    await writeFile(options.output, json);
+    console.error(`Report written to ${options.output}`);
+  } else {
+    console.log(json);
+  }
+
+  console.error(
+    `${report.summary.investorsEligible} eligible investor(s): ` +
+      `${report.summary.investorsPurged} purged, ${report.summary.filesDeleted} file(s) deleted, ` +
+      `${report.summary.actionsFailed} failure(s)`
+  );
+
+  if (!options.dryRun) {
+    const keysDeleted = await purgeExpiredIdempotencyKeys();
+    console.error(`${keysDeleted} expired idempotency key(s) deleted`);
+  }
+
+  if (report.summary.actionsFailed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('\nError during purge:');
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await disconnectDB();
+  });
@@ -0,0 +1,97 @@
+import 'dotenv/config';
+import { writeFile } from 'fs/promises';
+import { disconnectDB } from '@/lib/db';
+import {
+  reconcileFiles,
+  type ReconciliationAction,
+} from '@/lib/file-reconciliation';
+
+/**
+ * Reconcile stored documents with the investor_files table
+ *
+ * Usage:
+ *   npm run files:reconcile -- [--action=report|quarantine|delete] [--dry-run]
+ *                              [--grace-minutes=60] [--output=report.json]
+ *
+ * The JSON report is printed to stdout, or written to --output.
+ */
+
+const ACTIONS: ReconciliationAction[] = ['report', 'quarantine', 'delete'];
+
+function parseArgs(argv: string[]) {
+  const options = {
+    action: 'report' as ReconciliationAction,
+    dryRun: false,
+    gracePeriodMinutes: 60,
+    output: undefined as string | undefined,
+  };
+
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=');
+
+    switch (flag) {
+      case '--action':
+        if (!ACTIONS.includes(value as ReconciliationAction)) {
+          throw new Error(`--action must be one of ${ACTIONS.join(', ')}`);
+        }
+        options.action = value as ReconciliationAction;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--grace-minutes':
+        if (!/^\d+$/.test(value ?? '')) {
+          throw new Error('--grace-minutes must be a non-negative integer');
+        }
+        options.gracePeriodMinutes = parseInt(value, 10);
+        break;
+      case '--output':
+        if (!value) {
+          throw new Error('--output requires a file path');
+        }
+        options.output = value;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  console.error(
+    `Reconciling files (action: ${options.action}${options.dryRun ? ', dry run' : ''})...`
+  );
+
+  const report = await reconcileFiles(options);
+  const json = JSON.stringify(report, null, 2);
+
+  if (options.output) {
+    await writeFile(options.output, json);
+    console.error(`Report written to ${options.output}`);
+  } else {
+    console.log(json);
+  }
+
+  console.error(
+    `Scanned ${report.summary.rowsScanned} row(s) and ${report.summary.filesScanned} file(s): ` +
+      `${report.summary.orphanedFiles} orphaned file(s), ${report.summary.missingFiles} missing file(s)`
+  );
+
+  if (report.summary.actionsFailed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('\nError during reconciliation:');
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await disconnectDB();
+  });
@@ -0,0 +1,78 @@
+import 'dotenv/config';
+import { writeFile } from 'fs/promises';
+import { disconnectDB } from '@/lib/db';
+import { findExpiringDocuments } from '@/lib/document-expiry';
+
+/**
+ * Report investors whose documents have expired or expire soon
+ *
+ * Usage:
+ *   npm run documents:expiring -- [--within-days=30]
+ *                                 [--output=expiring-documents.json]
+ *
+ * The window defaults to DOCUMENT_EXPIRY_WARNING_DAYS (see
+ * lib/document-expiry.ts). The JSON report is printed to stdout, or written
+ * to --output. Run it on a schedule, e.g. weekly from cron, and ask the
+ * listed investors for current documents.
+ */
+
+function parseArgs(argv: string[]) {
+  const options = {
+    withinDays: undefined as number | undefined,
+    output: undefined as string | undefined,
+  };
+
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=');
+
+    switch (flag) {
+      case '--within-days':
+        if (!/^\d+$/.test(value ?? '')) {
+          throw new Error('--within-days must be a non-negative integer');
+        }
+        options.withinDays = parseInt(value, 10);
+        break;
+      case '--output':
+        if (!value) {
+          throw new Error('--output requires a file path');
+        }
+        options.output = value;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const report = await findExpiringDocuments({
+    withinDays: options.withinDays,
+  });
+  const json = JSON.stringify(report, null, 2);
+
+  if (options.output) {
+    await writeFile(options.output, json);
+    console.error(`Report written to ${options.output}`);
+  } else {
+    console.log(json);
+  }
+
+  console.error(
+    `${report.summary.investors} investor(s) with ${report.summary.documents} document(s) ` +
+      `expiring on or before ${report.expiresOnOrBefore}, ${report.summary.expired} already expired`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('\nError building expiry report:');
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await disconnectDB();
+  });
@@ -1,39 +1,100 @@
-import { Investor, Prisma } from '@prisma/client';
 import {
-  FIELD_LENGTHS,
-  AGE_CONSTRAINTS,
-  ERROR_MESSAGES,
-  isValidStateCode,
-  calculateAge,
-  isValidZipRange,
-  ZIP_VALIDATION,
-} from '@/lib/validation-constants';
+  Prisma,
+  type Investor as InvestorRow,
+  type Country,
+  type DocumentType,
+  type InvestorStatus,
+} from '@prisma/client';
 
 /**
- * Re-export Prisma generated types
+ * Investor as returned by the db client
+ * PII columns are stored encrypted; the pii-encryption extension decrypts
+ * them on read and turns dateOfBirth back into a Date
  */
-export type { Investor } from '@prisma/client';
+export type Investor = Omit<InvestorRow, 'dateOfBirth'> & {
+  dateOfBirth: Date;
+};
 
 /**
- * Re-export validation utilities
+ * Investor as read for an API response, without the phone blind index
+ * (see INVESTOR_PUBLIC_OMIT in lib/db.ts)
  */
-export { isValidStateCode } from '@/lib/validation-constants';
+export type PublicInvestor = Omit<Investor, 'phoneNumberHash'>;
 
 /**
- * Form data type for creating/updating investors
- * Used for client-side form submissions
+ * Investor as serialized by the API, with dates as ISO strings
+ * Used by client components that read the investor API
  */
-export interface InvestorFormData {
+export interface InvestorJson {
+  id: string;
   firstName: string;
   lastName: string;
-  dateOfBirth: string; // ISO date string from form input
+  dateOfBirth: string;
   phoneNumber: string;
   streetAddress: string;
+  state: string; // State, or province/territory in Canada
+  zipCode: string; // ZIP code, or postal code in Canada
+  country: Country;
+  status: InvestorStatus;
+  statusChangedAt: string;
+  createdAt: string;
+  updatedAt: string;
+  files?: Array<{
+    id: string;
+    fileOriginalName: string;
+    fileSize: number;
+    mimeType: string;
+    documentType: DocumentType;
+    issueDate: string | null;
+    expiryDate: string | null;
+    createdAt: string;
+  }>;
+}
+
+/**
+ * Entry in the response body of GET /api/investors/:id/duplicates
+ */
+export interface InvestorDuplicateJson {
+  investorId: string;
+  score: number; // 0 to 1
+  matchedOn: Array<'phoneNumber' | 'dateOfBirth' | 'name' | 'zipCode'>;
+  firstName: string;
+  lastName: string;
   state: string;
   zipCode: string;
-  files: FileList | File[]; // Multiple files supported
+  status: InvestorStatus;
+  createdAt: string;
+}
+
+/**
+ * Response body of GET /api/investors/:id/status
+ */
+export interface InvestorStatusJson {
+  id: string;
+  status: InvestorStatus;
+  statusChangedAt: string;
+  allowedTransitions: InvestorStatus[];
+  history: Array<{
+    id: string;
+    fromStatus: InvestorStatus | null;
+    toStatus: InvestorStatus;
+    note?: string | null;
+    createdAt: string;
+    changedBy?: { email: string; role: string } | null;
+  }>;
 }
 
+/**
+ * Re-export validation utilities
+ */
+export { isValidStateCode } from '@/lib/validation-constants';
+
+/**
+ * Form data type for creating investors, inferred from the form schema
+ * Used for client-side form submissions
+ */
+export type { InvestorFormData } from '@/lib/form-validation';
+
 /**
  * Investor with only essential information
  * Used for list views and summaries
@@ -54,16 +115,20 @@ export interface InvestorSummary {
 export interface CreateInvestorInput {
   firstName: string;
   lastName: string;
-  dateOfBirth: Date;
+  dateOfBirth: string; // YYYY-MM-DD, encrypted on write
   phoneNumber: string; // Normalized to 10 digits
   streetAddress: string;
-  state: string; // 2-letter state code
-  zipCode: string;
+  state: string; // 2-letter state, province or territory code
+  zipCode: string; // ZIP code, or postal code (A1A 1A1) in Canada
+  country: Country;
   files: Array<{
     filePath: string;
     fileOriginalName: string;
     fileSize: number;
     mimeType: string;
+    documentType: DocumentType;
+    issueDate?: Date | null;
+    expiryDate?: Date | null;
   }>;
 }
 
@@ -75,11 +140,12 @@ export interface UpdateInvestorInput {
   id: string; // UUID
   firstName?: string;
   lastName?: string;
-  dateOfBirth?: Date;
+  dateOfBirth?: string; // YYYY-MM-DD, encrypted on write
   phoneNumber?: string; // Normalized to 10 digits
   streetAddress?: string;
-  state?: string; // 2-letter state code
-  zipCode?: string;
+  state?: string; // 2-letter state, province or territory code
+  zipCode?: string; // ZIP code, or postal code (A1A 1A1) in Canada
+  country?: Country;
 }
 
 /**
@@ -88,12 +154,15 @@ export interface UpdateInvestorInput {
 export interface InvestorSearchParams {
   query?: string; // Search across name fields
   state?: string;
+  status?: InvestorStatus;
   startDate?: Date;
   endDate?: Date;
   page?: number;
   pageSize?: number;
-  sortBy?: 'firstName' | 'lastName' | 'createdAt' | 'dateOfBirth';
+  sortBy?: 'firstName' | 'lastName' | 'state' | 'status' | 'createdAt';
   sortOrder?: 'asc' | 'desc';
+  pagination?: 'offset' | 'cursor'; // Keyset pagination over (createdAt, id)
+  cursor?: string; // Opaque token from a previous cursor page
 }
 
 /**
@@ -125,109 +194,22 @@ export interface InvestorResponse {
  */
 export interface InvestorListResponse {
   success: boolean;
-  data?: Investor[];
-  pagination?: {
-    page: number;
-    pageSize: number;
-    totalCount: number;
-    totalPages: number;
-    hasNext: boolean;
-    hasPrev: boolean;
-  };
+  data?: PublicInvestor[];
+  pagination?:
+    | {
+        page: number;
+        pageSize: number;
+        totalCount: number;
+        totalPages: number;
+        hasNext: boolean;
+        hasPrev: boolean;
+      }
+    | {
+        pageSize: number;
+        nextCursor: string | null;
+        prevCursor: string | null;
+        hasNext: boolean;
+        hasPrev: boolean;
+      };
   error?: string;
 }
-
-/**
- * Type guard to check if dateOfBirth is valid (not in future, reasonable age)
- */
-export function isValidDateOfBirth(date: Date | string): boolean {
-  const age = calculateAge(typeof date === 'string' ? date : date.toISOString());
-  return age >= AGE_CONSTRAINTS.MIN && age <= AGE_CONSTRAINTS.MAX;
-}
-
-/**
- * Validation result type
- */
-export interface ValidationResult {
-  isValid: boolean;
-  errors: Record<string, string>;
-}
-
-/**
- * Validate investor form data
- */
-export function validateInvestorFormData(
-  data: InvestorFormData
-): ValidationResult {
-  const errors: Record<string, string> = {};
-
-  // First name validation
-  if (!data.firstName || data.firstName.trim().length === 0) {
-    errors.firstName = ERROR_MESSAGES.FIRST_NAME_REQUIRED;
-  } else if (
-    data.firstName.trim().length < FIELD_LENGTHS.FIRST_NAME_MIN ||
-    data.firstName.length > FIELD_LENGTHS.FIRST_NAME_MAX
-  ) {
-    errors.firstName = ERROR_MESSAGES.FIRST_NAME_LENGTH;
-  }
-
-  // Last name validation
-  if (!data.lastName || data.lastName.trim().length === 0) {
-    errors.lastName = ERROR_MESSAGES.LAST_NAME_REQUIRED;
-  } else if (
-    data.lastName.trim().length < FIELD_LENGTHS.LAST_NAME_MIN ||
-    data.lastName.length > FIELD_LENGTHS.LAST_NAME_MAX
-  ) {
-    errors.lastName = ERROR_MESSAGES.LAST_NAME_LENGTH;
-  }
-
-  // Date of birth validation
-  if (!data.dateOfBirth) {
-    errors.dateOfBirth = ERROR_MESSAGES.DATE_OF_BIRTH_REQUIRED;
-  } else {
-    const dob = new Date(data.dateOfBirth);
-    if (isNaN(dob.getTime())) {
-      errors.dateOfBirth = 'Invalid date format';
-    } else if (!isValidDateOfBirth(dob)) {
-      errors.dateOfBirth = ERROR_MESSAGES.AGE_RANGE;
-    }
-  }
-
-  // Phone number validation
-  if (!data.phoneNumber || data.phoneNumber.trim().length === 0) {
-    errors.phoneNumber = ERROR_MESSAGES.PHONE_REQUIRED;
-  }
-
-  // Street address validation
-  if (!data.streetAddress || data.streetAddress.trim().length === 0) {
-    errors.streetAddress = ERROR_MESSAGES.STREET_ADDRESS_REQUIRED;
-  } else if (
-    data.streetAddress.trim().length < FIELD_LENGTHS.STREET_ADDRESS_MIN ||
-    data.streetAddress.length > FIELD_LENGTHS.STREET_ADDRESS_MAX
-  ) {
-    errors.streetAddress = ERROR_MESSAGES.STREET_ADDRESS_LENGTH;
-  }
-
-  // State validation
-  if (!data.state || data.state.trim().length === 0) {
-    errors.state = ERROR_MESSAGES.STATE_REQUIRED;
-  } else if (data.state.length !== FIELD_LENGTHS.STATE_LENGTH) {
-    errors.state = ERROR_MESSAGES.STATE_LENGTH;
-  } else if (!isValidStateCode(data.state)) {
-    errors.state = ERROR_MESSAGES.STATE_INVALID;
-  }
-
-  // Zip code validation
-  if (!data.zipCode || data.zipCode.trim().length === 0) {
-    errors.zipCode = ERROR_MESSAGES.ZIP_REQUIRED;
-  } else if (!ZIP_VALIDATION.REGEX.test(data.zipCode)) {
-    errors.zipCode = ERROR_MESSAGES.ZIP_FORMAT;
-  } else if (!isValidZipRange(data.zipCode)) {
-    errors.zipCode = ERROR_MESSAGES.ZIP_RANGE;
-  }
-
-  return {
-    isValid: Object.keys(errors).length === 0,
-    errors,
-  };
-}